@@ -0,0 +1,37 @@
+import type {
+  AttachStatementOptions,
+  AuthInfo,
+  StatementResult,
+} from '../types.js'
+import { getStatement } from '../databricks-api.js'
+import { pickRequestOptions } from '../http.js'
+import { throwIfAborted } from '../util.js'
+import { createStatementHandle } from './submitStatement.js'
+
+/**
+ * Resume polling a statement submitted elsewhere, identified only by its ID.
+ * Aborting stops polling but does not cancel the statement.
+ */
+export async function attachStatement(
+  statementId: string,
+  auth: AuthInfo,
+  options: AttachStatementOptions = {}
+): Promise<StatementResult> {
+  const { signal, onProgress, enableMetrics, logger, polling } = options
+
+  throwIfAborted(signal, 'attachStatement')
+  logger?.info?.(`attachStatement Attaching to statement ${statementId}...`)
+
+  const current = await getStatement(auth, statementId, pickRequestOptions(options, signal))
+  const handle = createStatementHandle(current, auth, {
+    ...pickRequestOptions(options),
+    ...logger ? { logger } : {},
+  })
+
+  return handle.wait({
+    ...signal ? { signal } : {},
+    ...onProgress ? { onProgress } : {},
+    ...enableMetrics !== undefined ? { enableMetrics } : {},
+    ...polling ? { polling } : {},
+  })
+}
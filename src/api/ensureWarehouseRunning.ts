@@ -0,0 +1,75 @@
+import type {
+  AuthInfo,
+  EnsureWarehouseRunningOptions,
+  WarehouseInfo,
+} from '../types.js'
+import { getWarehouse, startWarehouse } from '../warehouse-api.js'
+import { pickRequestOptions } from '../http.js'
+import { withSpan } from '../tracing.js'
+import { delay, throwIfAborted } from '../util.js'
+import { DatabricksSqlError } from '../errors.js'
+
+// Warehouse startup takes minutes; there is no point polling it more often.
+const WAREHOUSE_POLL_INTERVAL_MS = 5000
+// A warehouse that keeps falling back to STOPPED is failing to start.
+const MAX_START_ATTEMPTS = 3
+
+/**
+ * Start a warehouse if needed and wait until it is RUNNING.
+ * A warehouse that is stopping is allowed to stop before it is started again.
+ * A warehouse that returns to STOPPED after a start is started again, up to three attempts in total.
+ * Aborting stops waiting but does not stop a warehouse that is starting.
+ * @throws {DatabricksSqlError} If the warehouse is deleted or fails to start
+ */
+export async function ensureWarehouseRunning(
+  auth: AuthInfo,
+  warehouseId: string,
+  options: EnsureWarehouseRunningOptions = {}
+): Promise<WarehouseInfo> {
+  const { signal, logger, onWarehouseProgress } = options
+  const requestOptions = pickRequestOptions(options, signal)
+
+  throwIfAborted(signal, 'ensureWarehouseRunning')
+
+  return withSpan(options.tracer, 'databricks.ensureWarehouseRunning', {
+    'databricks.warehouse_id': warehouseId,
+  }, async (span) => {
+    let warehouse = await getWarehouse(auth, warehouseId, requestOptions)
+    let startAttempts = 0
+
+    while (warehouse.state !== 'RUNNING') {
+      if (warehouse.state === 'DELETING' || warehouse.state === 'DELETED')
+        throw new DatabricksSqlError(
+          `Warehouse ${warehouseId} is ${warehouse.state.toLowerCase()}`,
+          'WAREHOUSE_DELETED'
+        )
+
+      if (warehouse.state === 'STOPPED') {
+        if (startAttempts >= MAX_START_ATTEMPTS) {
+          const reason = warehouse.health?.message ?? warehouse.health?.summary
+          logger?.error?.(`ensureWarehouseRunning Warehouse ${warehouseId} stopped after ${startAttempts} start attempts.`, warehouse.health)
+          throw new DatabricksSqlError(
+            `Warehouse ${warehouseId} failed to start${reason ? `: ${reason}` : ''}`,
+            'WAREHOUSE_START_FAILED'
+          )
+        }
+        logger?.info?.(startAttempts === 0
+          ? `ensureWarehouseRunning Starting warehouse ${warehouseId}...`
+          : `ensureWarehouseRunning Warehouse ${warehouseId} stopped again; restarting (attempt ${startAttempts + 1} of ${MAX_START_ATTEMPTS})...`)
+        await startWarehouse(auth, warehouseId, requestOptions)
+        startAttempts++
+        span?.setAttribute('databricks.warehouse.started', true)
+      } else {
+        logger?.info?.(`ensureWarehouseRunning Warehouse ${warehouseId} is ${warehouse.state}; waiting...`)
+      }
+
+      onWarehouseProgress?.(warehouse)
+      await delay(WAREHOUSE_POLL_INTERVAL_MS, signal)
+      warehouse = await getWarehouse(auth, warehouseId, requestOptions)
+    }
+
+    logger?.info?.(`ensureWarehouseRunning Warehouse ${warehouseId} is RUNNING.`)
+    onWarehouseProgress?.(warehouse)
+    return warehouse
+  })
+}
@@ -0,0 +1,54 @@
+import type {
+  AuthInfo,
+  ExecuteScriptOptions,
+  ScriptResult,
+  ScriptStatementResult,
+} from '../types.js'
+import { splitSqlStatements } from '../splitSqlStatements.js'
+import { throwIfAborted } from '../util.js'
+import { AbortError, ScriptExecutionError } from '../errors.js'
+import { executeStatement } from './executeStatement.js'
+
+/**
+ * Split a multi-statement SQL script and execute the statements in order.
+ * Stops at the first failure unless `continueOnError` is set.
+ * @throws {ScriptExecutionError} With the failing statement index and earlier results
+ */
+export async function executeScript(
+  sqlText: string,
+  auth: AuthInfo,
+  options: ExecuteScriptOptions = {}
+): Promise<ScriptResult> {
+  const { continueOnError, ...executeOptions } = options
+  const { signal, logger } = options
+  const statements = splitSqlStatements(sqlText)
+  const results: ScriptStatementResult[] = []
+  const scriptStartedAt = performance.now()
+  let failedCount = 0
+
+  logger?.info?.(`executeScript Running ${statements.length} statements...`)
+
+  for (const [index, statement] of statements.entries()) {
+    throwIfAborted(signal, 'executeScript')
+    const startedAt = performance.now()
+    try {
+      const result = await executeStatement(statement, auth, executeOptions)
+      results.push({ index, statement, result, durationMs: performance.now() - startedAt })
+    } catch (err) {
+      const error = err as Error
+      const durationMs = performance.now() - startedAt
+      // Aborts end the script regardless of continueOnError.
+      if (error instanceof AbortError)
+        throw error
+      if (!continueOnError) {
+        logger?.error?.(`executeScript Statement ${index + 1} failed; stopping script.`, error)
+        throw new ScriptExecutionError(index, statement, error, results)
+      }
+      logger?.error?.(`executeScript Statement ${index + 1} failed; continuing.`, error)
+      failedCount++
+      results.push({ index, statement, error, durationMs })
+    }
+  }
+
+  return { statements: results, failedCount, durationMs: performance.now() - scriptStartedAt }
+}
@@ -2,136 +2,296 @@ import type {
   AuthInfo,
   ExecuteStatementOptions,
   ExecuteStatementRequest,
-  StatementResult,
-  StatementState,
   QueryMetrics,
+  StatementInput,
+  StatementResult,
+  TraceSpan,
 } from '../types.js'
-import { postStatement, getStatement, cancelStatement, getQueryMetrics } from '../databricks-api.js'
-import { extractWarehouseId, throwIfAborted, delay } from '../util.js'
-import {
-  DatabricksSqlError,
-  StatementCancelledError,
-  AbortError,
-} from '../errors.js'
-
-const TERMINAL_STATES = new Set<StatementState>([
-  'SUCCEEDED',
-  'FAILED',
-  'CANCELED',
-  'CLOSED',
-])
-const POLL_INTERVAL_MS = 5000
-
-async function fetchMetrics(
-  auth: AuthInfo,
-  statementId: string,
-  signal?: AbortSignal
-): Promise<QueryMetrics | undefined> {
-  const queryInfo = await getQueryMetrics(auth, statementId, signal)
-  return queryInfo.metrics
+import { postStatement, cancelStatement } from '../databricks-api.js'
+import { pickRequestOptions } from '../http.js'
+import { withSpan } from '../tracing.js'
+import { combineSignals, extractWarehouseId, throwIfAborted } from '../util.js'
+import { StatementTimeoutError, AbortError } from '../errors.js'
+import { buildStatementRequest, pollStatement, toSucceededResult } from './statement.js'
+import { ensureWarehouseRunning } from './ensureWarehouseRunning.js'
+import { buildCacheKey, getCacheTtl } from '../cache.js'
+import { createSingleFlight, type SingleFlight } from '../singleFlight.js'
+
+const DEFAULT_CACHE_TTL_MS = 60_000
+// The submit may outlive timeoutMs by this much, so a server wait that ends just before
+// the deadline can still return a statement ID to cancel.
+const SUBMIT_GRACE_MS = 5000
+
+// Shared statements are scoped per auth object so callers never share results across credentials.
+const inFlightStatements = new WeakMap<AuthInfo, SingleFlight<StatementResult, SharedStatementCaller>>()
+
+/** A caller waiting on a shared statement */
+type SharedStatementCaller = {
+  onProgress: ExecuteStatementOptions['onProgress']
+  /** Set once the shared statement has been submitted */
+  statementId?: string
+}
+
+/** Overall time limit for a statement, combined with the caller's signal */
+type Deadline = {
+  signal: AbortSignal
+  timeoutMs: number
+  startedAt: number
+  expired: () => boolean
+  clear: () => void
+}
+
+function createDeadline(timeoutMs: number, signal?: AbortSignal): Deadline {
+  const controller = new AbortController()
+  let expired = false
+  const timer = setTimeout(() => {
+    expired = true
+    controller.abort()
+  }, timeoutMs)
+  const combined = signal ? combineSignals([signal, controller.signal]) : undefined
+  return {
+    signal: combined?.signal ?? controller.signal,
+    timeoutMs,
+    startedAt: Date.now(),
+    expired: () => expired,
+    clear: () => {
+      clearTimeout(timer)
+      combined?.dispose()
+    },
+  }
+}
+
+/**
+ * Keep the server wait strictly below the overall timeout, so the submit request
+ * returns a statement ID that can still be cancelled once the deadline passes.
+ * The API accepts 0 or 5-50 seconds.
+ */
+function getWaitTimeout(timeoutMs: number | undefined): string {
+  if (timeoutMs === undefined || timeoutMs > 50_000)
+    return '50s'
+  const seconds = Math.ceil(timeoutMs / 1000) - 1
+  return seconds >= 5 ? `${seconds}s` : '0s'
 }
 
 /**
  * Execute SQL statement and poll until completion
  */
 export async function executeStatement(
-  query: string,
+  query: StatementInput,
   auth: AuthInfo,
   options: ExecuteStatementOptions = {}
 ): Promise<StatementResult> {
   const warehouseId = options.warehouse_id ?? extractWarehouseId(auth.httpPath)
-  const { signal, onProgress, enableMetrics, logger } = options
-  const waitTimeout = options.wait_timeout ?? (onProgress ? '0s' : '50s')
+  const { cache, logger } = options
+  const statementKey = cache || options.dedupe ? buildCacheKey(query, auth, warehouseId, options) : undefined
+
+  if (cache && statementKey && !options.bypassCache) {
+    const cached = await cache.store.get(statementKey)
+    // Re-check expiration in case a custom store keeps entries past their TTL.
+    if (cached && getCacheTtl(cached, Infinity) > 0) {
+      logger?.info?.(`executeStatement Serving statement ${cached.statement_id} from cache.`)
+      return cached
+    }
+    if (cached)
+      await cache.store.delete(statementKey)
+  }
+
+  const deadline = options.timeoutMs === undefined
+    ? undefined
+    : createDeadline(options.timeoutMs, options.signal)
+  let result: StatementResult
+  try {
+    result = options.dedupe && statementKey
+      ? await runSharedStatement(query, auth, options, warehouseId, statementKey, deadline)
+      : await withSpan(options.tracer, 'databricks.executeStatement', {
+        'db.system': 'databricks',
+        'databricks.warehouse_id': warehouseId,
+      }, (span) => runStatement(query, auth, options, warehouseId, span, deadline))
+  } finally {
+    deadline?.clear()
+  }
+
+  if (cache && statementKey) {
+    const ttlMs = getCacheTtl(result, cache.ttlMs ?? DEFAULT_CACHE_TTL_MS)
+    if (ttlMs > 0)
+      await cache.store.set(statementKey, result, ttlMs)
+  }
+  return result
+}
+
+/**
+ * Join an identical in-flight statement, or start one that later callers can join.
+ * The first caller's options drive the shared run; every caller keeps its own
+ * signal and timeout, and the statement is cancelled only when all of them abort.
+ */
+async function runSharedStatement(
+  query: StatementInput,
+  auth: AuthInfo,
+  options: ExecuteStatementOptions,
+  warehouseId: string,
+  key: string,
+  deadline: Deadline | undefined
+): Promise<StatementResult> {
+  let flight = inFlightStatements.get(auth)
+  if (!flight) {
+    flight = createSingleFlight()
+    inFlightStatements.set(auth, flight)
+  }
+  const signal = deadline?.signal ?? options.signal
+  const caller: SharedStatementCaller = { onProgress: options.onProgress }
+
+  try {
+    return await flight.run(key, caller, signal, (sharedSignal, subscribers) => {
+      options.logger?.info?.(`executeStatement Starting shared statement on warehouse ${warehouseId}.`)
+      const onSubmitted = (statementId: string) => {
+        for (const subscriber of subscribers)
+          subscriber.statementId = statementId
+      }
+      // Progress goes to every caller still waiting, not just the one that started the run.
+      const onProgress = (result: StatementResult, metrics?: QueryMetrics) => {
+        for (const subscriber of subscribers) {
+          subscriber.statementId = result.statement_id
+          subscriber.onProgress?.(result, metrics)
+        }
+      }
+      const { timeoutMs: _timeoutMs, ...sharedOptions } = options
+      return withSpan(options.tracer, 'databricks.executeStatement', {
+        'db.system': 'databricks',
+        'databricks.warehouse_id': warehouseId,
+        'databricks.dedupe.shared': true,
+      }, (span) => runStatement(query, auth, {
+        ...sharedOptions,
+        // Keep the first caller's server wait; the shared progress callback should not change it.
+        wait_timeout: options.wait_timeout ?? (options.onProgress ? '0s' : getWaitTimeout(options.timeoutMs)),
+        signal: sharedSignal,
+        onProgress,
+      }, warehouseId, span, undefined, onSubmitted))
+    })
+  } catch (err) {
+    if (deadline?.expired())
+      throw new StatementTimeoutError(caller.statementId, Date.now() - deadline.startedAt)
+    throw err
+  }
+}
+
+/**
+ * Submit without the deadline signal, so a statement ID comes back to cancel once the
+ * deadline passes. A submit that stalls or keeps retrying is abandoned shortly after it.
+ */
+async function submitWithinDeadline(
+  auth: AuthInfo,
+  request: ExecuteStatementRequest,
+  options: ExecuteStatementOptions,
+  deadline: Deadline | undefined
+): Promise<StatementResult> {
+  if (!deadline)
+    return postStatement(auth, request, pickRequestOptions(options, options.signal))
+
+  const remainingMs = deadline.timeoutMs - (Date.now() - deadline.startedAt)
+  const submitDeadline = createDeadline(Math.max(remainingMs, 0) + SUBMIT_GRACE_MS, options.signal)
+  // Also settle when the fetch implementation ignores the abort signal.
+  const abandoned = new Promise<never>((_, reject) => {
+    submitDeadline.signal.addEventListener('abort', () => reject(new AbortError('Aborted during submit')), { once: true })
+  })
+  try {
+    return await Promise.race([
+      postStatement(auth, request, pickRequestOptions(options, submitDeadline.signal)),
+      abandoned,
+    ])
+  } catch (err) {
+    if (submitDeadline.expired())
+      throw new StatementTimeoutError(undefined, Date.now() - deadline.startedAt)
+    throw err
+  } finally {
+    submitDeadline.clear()
+  }
+}
+
+async function runStatement(
+  query: StatementInput,
+  auth: AuthInfo,
+  options: ExecuteStatementOptions,
+  warehouseId: string,
+  span: TraceSpan | undefined,
+  deadline: Deadline | undefined,
+  onSubmitted?: (statementId: string) => void
+): Promise<StatementResult> {
+  const { onProgress, logger } = options
+  const signal = deadline?.signal ?? options.signal
+  const waitTimeout = options.wait_timeout ?? (onProgress ? '0s' : getWaitTimeout(options.timeoutMs))
+  const requestOptions = pickRequestOptions(options, signal)
   let cancelIssued = false
 
+  // Distinguish our own timeout from a caller abort.
+  const interruptedError = (statementId?: string) => deadline?.expired()
+    ? new StatementTimeoutError(statementId, Date.now() - deadline.startedAt)
+    : new AbortError('Aborted during polling')
+
   // Check if already aborted
   throwIfAborted(signal, 'executeStatement')
 
-  // Helper to call onProgress with optional metrics
-  const emitProgress = onProgress
-    ? async () => result ? onProgress(
-      result,
-      enableMetrics ? await fetchMetrics(auth, result.statement_id, signal).catch(e => {
-        logger?.error?.(`executeStatement Failed to fetch query metrics for statement ${result?.statement_id}: ${String(e)}`, { statementId: result?.statement_id })
-        return undefined
-      }) : undefined
-    ) : undefined
-    : undefined
-
-  // 1. Build request (filter out undefined values)
-  const request = Object.fromEntries(
-    Object.entries({
-      warehouse_id: warehouseId,
-      statement: query,
-      byte_limit: options.byte_limit,
-      disposition: options.disposition,
-      format: options.format,
-      on_wait_timeout: options.on_wait_timeout ?? 'CONTINUE',
-      wait_timeout: waitTimeout,
-      row_limit: options.row_limit,
-      catalog: options.catalog,
-      schema: options.schema,
-      parameters: options.parameters,
-    }).filter(([, v]) => v !== undefined)
-  ) as ExecuteStatementRequest
+  // Start the warehouse first so the statement does not sit in PENDING.
+  if (options.ensureWarehouseRunning) {
+    try {
+      await ensureWarehouseRunning(auth, warehouseId, {
+        ...requestOptions,
+        ...logger ? { logger } : {},
+        ...options.onWarehouseProgress ? { onWarehouseProgress: options.onWarehouseProgress } : {},
+      })
+    } catch (err) {
+      if (signal?.aborted)
+        throw interruptedError()
+      throw err
+    }
+  }
+
+  // 1. Build request
+  const request = buildStatementRequest(query, warehouseId, options, waitTimeout)
 
   logger?.info?.(`executeStatement Executing statement on warehouse ${warehouseId}...`)
 
   // 2. Submit statement execution request
-  let result = await postStatement(auth, request, signal)
+  // The server holds the request for up to wait_timeout, so short queries usually finish without polling.
+  const submittedAt = Date.now()
+  const submitted = await submitWithinDeadline(auth, request, options, deadline)
+  const statementId = submitted.statement_id
+  span?.setAttribute('databricks.statement_id', statementId)
+  onSubmitted?.(statementId)
   const cancelStatementSafely = async () => {
     if (cancelIssued) return
-    logger?.info?.('executeStatement Abort signal received during executeStatement.')
+    logger?.info?.(deadline?.expired()
+      ? `executeStatement Timeout of ${options.timeoutMs}ms exceeded; cancelling statement.`
+      : 'executeStatement Abort signal received during executeStatement.')
     cancelIssued = true
-    await cancelStatement(auth, result.statement_id).catch((err) => {
+    await cancelStatement(auth, statementId, pickRequestOptions(options)).catch((err) => {
       logger?.error?.('executeStatement Failed to cancel statement after abort.', err)
     })
   }
 
   if (signal?.aborted) {
     await cancelStatementSafely()
-    throw new AbortError('Aborted during polling')
+    throw interruptedError(statementId)
   }
 
   const onAbort = () => cancelStatementSafely().catch(() => { })
 
+  // 3. Poll until terminal state
+  let result: StatementResult
   try {
     signal?.addEventListener('abort', onAbort, { once: true })
-
-    // 3. Poll until terminal state
-    while (!TERMINAL_STATES.has(result.status.state)) {
-      logger?.info?.(`executeStatement Statement ${result.statement_id} in state ${result.status.state}; polling for status...`)
-      await delay(POLL_INTERVAL_MS, signal)
-      result = await getStatement(auth, result.statement_id, signal)
-      await emitProgress?.()
-    }
+    result = await pollStatement(auth, submitted, { ...options, startedAt: submittedAt, span }, requestOptions)
   } catch (err) {
     if (err instanceof AbortError || signal?.aborted) {
       logger?.info?.('executeStatement Abort detected in executeStatement polling loop.')
       await cancelStatementSafely()
-      throw new AbortError('Aborted during polling')
+      throw interruptedError(statementId)
     }
     logger?.error?.(`executeStatement Error during executeStatement polling: ${String(err)}`)
     throw err
   } finally {
-    logger?.info?.(`executeStatement Statement ${result.statement_id} reached final state: ${result.status.state}`)
     signal?.removeEventListener('abort', onAbort)
   }
 
-  // 4. Final progress callback
-  await emitProgress?.()
-
-  // 5. Handle terminal states
-  if (result.status.state === 'SUCCEEDED')
-    return result
-
-  if (result.status.state === 'CANCELED')
-    throw new StatementCancelledError(result.statement_id)
-
-  // FAILED or CLOSED
-  throw new DatabricksSqlError(
-    result.status.error?.message ?? 'Statement execution failed',
-    result.status.error?.error_code,
-    result.statement_id
-  )
+  // 4. Handle terminal states
+  return toSucceededResult(result)
 }
@@ -11,7 +11,7 @@ import { fetchRow } from './fetchRow.js'
 
 /**
  * Fetch all rows from statement result as an array.
- * Only supports INLINE results or JSON_ARRAY external links.
+ * Supports INLINE results and JSON_ARRAY, ARROW_STREAM, or CSV external links.
  */
 export async function fetchAll(
   statementResult: StatementResult,
@@ -47,6 +47,21 @@ export async function fetchAll(
   if (options.encodeTimestamp)
     fetchOptions.encodeTimestamp = options.encodeTimestamp
 
+  if (options.retry)
+    fetchOptions.retry = options.retry
+
+  if (options.fetch)
+    fetchOptions.fetch = options.fetch
+
+  if (options.dispatcher)
+    fetchOptions.dispatcher = options.dispatcher
+
+  if (options.hooks)
+    fetchOptions.hooks = options.hooks
+
+  if (options.tracer)
+    fetchOptions.tracer = options.tracer
+
   await fetchRow(statementResult, auth, fetchOptions)
   logger?.info?.(`fetchAll fetched ${rows.length} rows for statement ${statementId}.`, {
     ...logContext,
@@ -0,0 +1,193 @@
+import type { Readable } from 'node:stream'
+import type {
+  AuthInfo,
+  FetchRowsIteratorOptions,
+  RowArray,
+  RowObject,
+  StatementManifest,
+  StatementResult,
+} from '../types.js'
+
+import { parser } from 'stream-json'
+import { streamArray } from 'stream-json/streamers/StreamArray'
+
+import { getChunk } from '../databricks-api.js'
+import { pickRequestOptions } from '../http.js'
+import { createRowMapper } from '../createRowMapper.js'
+import { readArrowRows } from '../arrowRows.js'
+import { readCsvRecords } from '../csvRows.js'
+import { AbortError, DatabricksSqlError } from '../errors.js'
+import { combineSignals, validateSucceededResult } from '../util.js'
+import { fetchStream } from './fetchStream.js'
+
+const STREAM_FORMATS = new Set<StatementManifest['format']>(['JSON_ARRAY', 'ARROW_STREAM', 'CSV'])
+
+/**
+ * Iterate rows from statement result.
+ * Supports INLINE results and JSON_ARRAY, ARROW_STREAM, or CSV external links.
+ * Data is pulled only as the consumer asks for rows: chunks are fetched one at a time
+ * and external link downloads pause while rows are not being read.
+ * Leaving the loop early (break, return, or throw) stops the underlying downloads.
+ */
+export async function* fetchRows(
+  statementResult: StatementResult,
+  auth: AuthInfo,
+  options: FetchRowsIteratorOptions = {}
+): AsyncGenerator<RowArray | RowObject, void, undefined> {
+  const { signal, format, logger } = options
+  const manifest = validateSucceededResult(statementResult)
+  const statementId = statementResult.statement_id
+  const logContext = { statementId, manifest, requestedFormat: format }
+  // Map JSON_ARRAY rows to JSON_OBJECT when requested.
+  const mapRow = createRowMapper(manifest, format, {
+    ...options.encodeBigInt ? { encodeBigInt: options.encodeBigInt } : {},
+    ...options.encodeTimestamp ? { encodeTimestamp: options.encodeTimestamp } : {},
+  })
+
+  logger?.info?.(`fetchRow fetching rows for statement ${statementId}.`, {
+    ...logContext,
+    resultType: statementResult.result?.external_links ? 'EXTERNAL_LINKS' : 'INLINE',
+  })
+
+  if (statementResult.result?.external_links) {
+    if (!STREAM_FORMATS.has(manifest.format)) {
+      logger?.error?.(`fetchRow only supports JSON_ARRAY, ARROW_STREAM, and CSV for external_links; got ${manifest.format}.`, logContext)
+      throw new DatabricksSqlError(
+        `fetchRow only supports JSON_ARRAY, ARROW_STREAM, and CSV for external_links. Received: ${manifest.format}`,
+        'UNSUPPORTED_FORMAT',
+        statementId
+      )
+    }
+
+    logger?.info?.(`fetchRow streaming external links for statement ${statementId}.`, logContext)
+    // Aborted when the consumer stops early so pending downloads and merges stop too.
+    const teardown = new AbortController()
+    const combined = signal ? combineSignals([signal, teardown.signal]) : undefined
+    const stream = fetchStream(statementResult, auth, {
+      ...pickRequestOptions(options, combined?.signal ?? teardown.signal),
+      ...logger ? { logger } : {},
+    })
+    let completed = false
+    try {
+      for await (const row of readStreamRows(stream, manifest)) {
+        if (signal?.aborted) {
+          logger?.info?.(`fetchRow abort detected while streaming ${manifest.format} rows.`, {
+            ...logContext,
+            aborted: signal.aborted,
+          })
+          throw new AbortError('Aborted')
+        }
+        yield mapRow(row)
+      }
+      completed = true
+    } finally {
+      if (!completed) {
+        teardown.abort()
+        stream.destroy()
+      }
+      combined?.dispose()
+    }
+    return
+  }
+
+  const totalChunks = manifest.total_chunk_count
+
+  // Process first chunk (inline data_array)
+  const dataArray = statementResult.result?.data_array
+  if (dataArray) {
+    logger?.info?.(`fetchRow processing inline rows for statement ${statementId}.`, {
+      ...logContext,
+      inlineRows: dataArray.length,
+    })
+    for (const row of dataArray) {
+      if (signal?.aborted) throw new AbortError('Aborted')
+      // Convert row to requested shape before yielding.
+      yield mapRow(row as RowArray)
+    }
+  }
+
+  // Process additional chunks if any
+  if (totalChunks > 1) {
+    logger?.info?.(`fetchRow processing ${totalChunks} chunks for statement ${statementId}.`, logContext)
+    for (let chunkIndex = 1; chunkIndex < totalChunks; chunkIndex++) {
+      if (signal?.aborted) throw new AbortError('Aborted')
+
+      const chunk = await getChunk(auth, statementId, chunkIndex, pickRequestOptions(options, signal))
+
+      // Additional chunks should also be data_array (INLINE)
+      if (chunk.external_links)
+        throw new DatabricksSqlError(
+          'fetchRow only supports INLINE results. Chunk contains external_links.',
+          'UNSUPPORTED_FORMAT',
+          statementId
+        )
+
+      if (chunk.data_array) {
+        for (const row of chunk.data_array) {
+          if (signal?.aborted) throw new AbortError('Aborted')
+          // Apply the same mapping for each chunked row.
+          yield mapRow(row as RowArray)
+        }
+      }
+    }
+  }
+}
+
+function readStreamRows(stream: Readable, manifest: StatementManifest): AsyncGenerator<RowArray> {
+  if (manifest.format === 'ARROW_STREAM')
+    return readArrowRows(stream)
+  if (manifest.format === 'CSV')
+    return readCsvRows(stream, manifest)
+  return readJsonArrayRows(stream)
+}
+
+async function* readJsonArrayRows(stream: Readable): AsyncGenerator<RowArray> {
+  // Stream JSON_ARRAY as individual rows to avoid buffering whole payloads.
+  const jsonStream = stream.pipe(parser()).pipe(streamArray())
+  // pipe() does not forward source errors; surface them to the iterator.
+  const forwardError = (err: Error) => jsonStream.destroy(err)
+  stream.once('error', forwardError)
+
+  try {
+    for await (const item of jsonStream) {
+      const row = item.value
+      if (!Array.isArray(row)) {
+        throw new DatabricksSqlError(
+          'Expected JSON_ARRAY rows to be arrays',
+          'INVALID_FORMAT'
+        )
+      }
+      yield row
+    }
+  } finally {
+    stream.off('error', forwardError)
+  }
+}
+
+async function* readCsvRows(stream: Readable, manifest: StatementManifest): AsyncGenerator<RowArray> {
+  const columnNames = manifest.schema.columns.map((column) => column.name)
+  let headerSeen = false
+
+  // The merged CSV stream carries a single header row before the data rows.
+  for await (const record of readCsvRecords(stream)) {
+    if (!headerSeen) {
+      headerSeen = true
+      const matches = record.length === columnNames.length
+        && record.every((name, index) => name === columnNames[index])
+      if (columnNames.length > 0 && !matches)
+        throw new DatabricksSqlError(
+          `CSV header does not match result columns. Expected: ${columnNames.join(', ')}; received: ${record.join(', ')}`,
+          'INVALID_FORMAT'
+        )
+      continue
+    }
+
+    if (columnNames.length > 0 && record.length !== columnNames.length)
+      throw new DatabricksSqlError(
+        `Expected ${columnNames.length} CSV fields per row, got ${record.length}`,
+        'INVALID_FORMAT'
+      )
+
+    yield record
+  }
+}
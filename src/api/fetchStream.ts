@@ -1,4 +1,3 @@
-import type { MergeFormat } from '@bitofsky/merge-streams'
 import type {
   AuthInfo,
   ExternalLinkInfo,
@@ -6,14 +5,17 @@ import type {
   StatementManifest,
   StatementResult,
 } from '../types.js'
+import type { RequestOptions } from '../http.js'
 
 import { PassThrough, Readable } from 'node:stream'
-
-import { mergeStreamsFromUrls } from '@bitofsky/merge-streams'
+import { pipeline } from 'node:stream/promises'
 
 import { getChunk } from '../databricks-api.js'
+import { withSpan } from '../tracing.js'
+import { pickRequestOptions } from '../http.js'
 import { AbortError, DatabricksSqlError } from '../errors.js'
-import { pipeUrlToOutput, validateSucceededResult } from '../util.js'
+import { openUrlStream, pipeUrlToOutput, validateSucceededResult } from '../util.js'
+import { createChunkJoiner } from '../chunkJoiner.js'
 
 /**
  * Create a readable stream from statement result.
@@ -27,7 +29,7 @@ export function fetchStream(
 ): Readable {
   const { signal, forceMerge, logger } = options
   const manifest = validateSucceededResult(statementResult)
-  const format = manifest.format as MergeFormat
+  const format = manifest.format
   const statementId = statementResult.statement_id
   const baseLog = { statementId, manifest, format, forceMerge }
 
@@ -71,7 +73,7 @@ export function fetchStream(
 
   // Start async merge process
   // Errors are forwarded to the stream consumer via destroy.
-  mergeChunksToStream(statementResult, auth, manifest, format, output, signal, forceMerge, logger)
+  mergeChunksToStream(statementResult, auth, manifest, format, output, options)
     .catch((err) => {
       logger?.error?.(`fetchStream error while streaming statement ${statementId}.`, {
         ...baseLog,
@@ -90,16 +92,16 @@ async function mergeChunksToStream(
   statementResult: StatementResult,
   auth: AuthInfo,
   manifest: StatementManifest,
-  format: MergeFormat,
+  format: StatementManifest['format'],
   output: PassThrough,
-  signal?: AbortSignal,
-  forceMerge?: boolean,
-  logger?: FetchStreamOptions['logger']
+  options: FetchStreamOptions
 ): Promise<void> {
+  const { signal, forceMerge, logger, tracer } = options
   const statementId = statementResult.statement_id
   const baseLog = { statementId, manifest, format, forceMerge }
   logger?.info?.(`fetchStream collecting external links for statement ${statementId}.`, baseLog)
-  const urls = await collectExternalUrls(statementResult, auth, manifest, signal)
+  const links = await collectExternalLinks(statementResult, auth, manifest, pickRequestOptions(options, signal))
+  const urls = links.map((link) => link.external_link)
 
   // No external links - close the stream
   if (urls.length === 0) {
@@ -113,47 +115,83 @@ async function mergeChunksToStream(
       ...baseLog,
       urlCount: urls.length,
     })
-    // Avoid merge-streams overhead for a single URL unless forced.
-    return pipeUrlToOutput(urls[0]!, output, signal)
+    const link = links[0]!
+    // A single link needs no joining unless forced.
+    return withSpan(tracer, 'databricks.fetchStream.download', {
+      'databricks.statement_id': statementId,
+      'databricks.chunk_index': link.chunk_index,
+      'databricks.byte_count': link.byte_count,
+    }, () => pipeUrlToOutput(link.external_link, output, signal, options))
   }
 
-  // Merge all URLs using merge-streams
+  // Download links one at a time through the configured fetch and join them into one result.
   logger?.info?.(`fetchStream merging ${urls.length} external links for statement ${statementId}.`, {
     ...baseLog,
     urlCount: urls.length,
   })
-  return mergeStreamsFromUrls(format, signal ? { urls, output, signal } : { urls, output })
+  return withSpan(tracer, 'databricks.fetchStream.merge', {
+    'databricks.statement_id': statementId,
+    'databricks.link_count': links.length,
+    'databricks.byte_count': links.reduce((total, link) => total + link.byte_count, 0),
+  }, () => downloadLinksInOrder(statementId, links, format, output, options))
+}
+
+/**
+ * Download external links one at a time through the configured fetch and join them into output,
+ * with a download span per link
+ */
+async function downloadLinksInOrder(
+  statementId: string,
+  links: ExternalLinkInfo[],
+  format: StatementManifest['format'],
+  output: PassThrough,
+  options: FetchStreamOptions
+): Promise<void> {
+  const { signal, tracer } = options
+  const joiner = createChunkJoiner(format)
+  for (const link of links) {
+    await withSpan(tracer, 'databricks.fetchStream.download', {
+      'databricks.statement_id': statementId,
+      'databricks.chunk_index': link.chunk_index,
+      'databricks.byte_count': link.byte_count,
+    }, async () => {
+      const input = await openUrlStream(link.external_link, signal, options)
+      await pipeline(input, joiner.next(), output, { end: false })
+    })
+  }
+  output.end(joiner.end())
 }
 
-async function collectExternalUrls(
+async function collectExternalLinks(
   statementResult: StatementResult,
   auth: AuthInfo,
   manifest: StatementManifest,
-  signal?: AbortSignal
-): Promise<string[]> {
-  const chunkUrls = new Map<number, string[]>()
+  requestOptions: RequestOptions
+): Promise<ExternalLinkInfo[]> {
+  const { signal } = requestOptions
+  const chunkLinks = new Map<number, ExternalLinkInfo[]>()
 
-  addChunkLinks(chunkUrls, statementResult.result?.external_links)
+  addChunkLinks(chunkLinks, statementResult.result?.external_links)
 
   if (!manifest.total_chunk_count)
-    return flattenChunkUrls(chunkUrls)
+    return flattenChunkLinks(chunkLinks)
 
   for (let i = 0; i < manifest.total_chunk_count; i++) {
-    if (chunkUrls.has(i))
+    if (chunkLinks.has(i))
       continue
     if (signal?.aborted)
       throw new AbortError('Aborted while collecting URLs')
 
     // Chunk metadata contains external link URLs when results are chunked.
-    const chunkData = await getChunk(auth, statementResult.statement_id, i, signal)
-    addChunkLinks(chunkUrls, chunkData.external_links)
+    const chunkData = await getChunk(auth, statementResult.statement_id, i, requestOptions)
+    addChunkLinks(chunkLinks, chunkData.external_links)
   }
 
-  return flattenChunkUrls(chunkUrls)
+  return flattenChunkLinks(chunkLinks)
 }
 
 function addChunkLinks(
-  chunkUrls: Map<number, string[]>,
+  chunkLinks: Map<number, ExternalLinkInfo[]>,
   externalLinks?: ExternalLinkInfo[]
 ): void {
   if (!externalLinks)
@@ -163,25 +201,25 @@ function addChunkLinks(
     if (!isNonEmptyString(link.external_link))
       continue
 
-    const existing = chunkUrls.get(link.chunk_index)
+    const existing = chunkLinks.get(link.chunk_index)
     if (existing) {
-      existing.push(link.external_link)
+      existing.push(link)
     } else {
-      chunkUrls.set(link.chunk_index, [link.external_link])
+      chunkLinks.set(link.chunk_index, [link])
     }
   }
 }
 
-function flattenChunkUrls(chunkUrls: Map<number, string[]>): string[] {
-  if (chunkUrls.size === 0)
+function flattenChunkLinks(chunkLinks: Map<number, ExternalLinkInfo[]>): ExternalLinkInfo[] {
+  if (chunkLinks.size === 0)
     return []
 
-  const sorted = [...chunkUrls.entries()].sort(([a], [b]) => a - b)
-  const urls: string[] = []
-  for (const [, links] of sorted) {
-    urls.push(...links)
+  const sorted = [...chunkLinks.entries()].sort(([a], [b]) => a - b)
+  const links: ExternalLinkInfo[] = []
+  for (const [, chunk] of sorted) {
+    links.push(...chunk)
   }
-  return urls
+  return links
 }
 
 function isNonEmptyString(value: unknown): value is string {
@@ -1,5 +1,12 @@
 export { executeStatement } from './executeStatement.js'
+export { submitStatement } from './submitStatement.js'
+export { attachStatement } from './attachStatement.js'
+export { watchStatement } from './watchStatement.js'
+export { executeScript } from './executeScript.js'
 export { fetchRow } from './fetchRow.js'
+export { fetchRows } from './fetchRows.js'
 export { fetchAll } from './fetchAll.js'
 export { fetchStream } from './fetchStream.js'
 export { mergeExternalLinks } from './mergeExternalLinks.js'
+export { ensureWarehouseRunning } from './ensureWarehouseRunning.js'
+export { listQueryHistory } from './listQueryHistory.js'
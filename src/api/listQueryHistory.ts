@@ -0,0 +1,40 @@
+import type {
+  AuthInfo,
+  ListQueryHistoryOptions,
+  QueryInfo,
+} from '../types.js'
+import { listQueries } from '../databricks-api.js'
+import { pickRequestOptions } from '../http.js'
+import { throwIfAborted } from '../util.js'
+
+/**
+ * Iterate over Query History API results, following next_page_token automatically.
+ * Pages are fetched lazily as the consumer iterates.
+ */
+export async function* listQueryHistory(
+  auth: AuthInfo,
+  options: ListQueryHistoryOptions = {}
+): AsyncGenerator<QueryInfo, void, undefined> {
+  const { signal, logger, filter_by, include_metrics, max_results } = options
+  const requestOptions = pickRequestOptions(options, signal)
+  let pageToken: string | undefined
+
+  for (let page = 1; ; page++) {
+    throwIfAborted(signal, 'listQueryHistory')
+    // Filters are encoded in the page token, so later pages send only the token.
+    const response = await listQueries(auth, Object.fromEntries(
+      Object.entries(pageToken
+        ? { page_token: pageToken, include_metrics, max_results }
+        : { filter_by, include_metrics, max_results }
+      ).filter(([, v]) => v !== undefined)
+    ), requestOptions)
+
+    const queries = response.res ?? []
+    logger?.info?.(`listQueryHistory Fetched page ${page} with ${queries.length} queries.`)
+    yield* queries
+
+    pageToken = response.next_page_token
+    if (!pageToken || response.has_next_page === false)
+      return
+  }
+}
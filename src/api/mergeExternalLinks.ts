@@ -4,6 +4,8 @@ import type {
   StatementResult,
 } from '../types.js'
 
+import { pickRequestOptions } from '../http.js'
+import { withSpan } from '../tracing.js'
 import { validateSucceededResult } from '../util.js'
 import { fetchStream } from './fetchStream.js'
 
@@ -47,14 +49,21 @@ export async function mergeExternalLinks(
   // Get merged stream via fetchStream
   logger?.info?.(`mergeExternalLinks merging external links for statement ${statementId}.`, logContext)
   const stream = fetchStream(statementResult, auth, {
-    ...signal ? { signal } : {},
+    ...pickRequestOptions(options, signal),
     ...forceMerge !== undefined ? { forceMerge } : {},
     ...logger ? { logger } : {},
   })
 
   // Upload via callback
   logger?.info?.(`mergeExternalLinks uploading merged external link for statement ${statementId}.`, logContext)
-  const uploadResult = await mergeStreamToExternalLink(stream)
+  const uploadResult = await withSpan(options.tracer, 'databricks.mergeExternalLinks.upload', {
+    'databricks.statement_id': statementId,
+    'databricks.chunk_count': totalChunks,
+  }, async (span) => {
+    const uploaded = await mergeStreamToExternalLink(stream)
+    span?.setAttribute('databricks.byte_count', uploaded.byte_count)
+    return uploaded
+  })
   logger?.info?.(`mergeExternalLinks uploaded merged external link for statement ${statementId}.`, {
     ...logContext,
     byteCount: uploadResult.byte_count,
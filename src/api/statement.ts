@@ -0,0 +1,175 @@
+import type {
+  AuthInfo,
+  ExecuteStatementOptions,
+  ExecuteStatementRequest,
+  PollContext,
+  PollingStrategy,
+  QueryMetrics,
+  StatementInput,
+  StatementResult,
+  StatementState,
+  TraceSpan,
+} from '../types.js'
+import type { RequestOptions } from '../http.js'
+import { getStatement, getQueryMetrics } from '../databricks-api.js'
+import { withSpan } from '../tracing.js'
+import { delay } from '../util.js'
+import { resolveStatementInput } from '../sql.js'
+import { DatabricksSqlError, StatementCancelledError } from '../errors.js'
+
+const TERMINAL_STATES = new Set<StatementState>([
+  'SUCCEEDED',
+  'FAILED',
+  'CANCELED',
+  'CLOSED',
+])
+
+const DEFAULT_POLLING_STRATEGY: Required<Omit<PollingStrategy, 'getIntervalMs'>> = {
+  initialIntervalMs: 500,
+  maxIntervalMs: 5000,
+  backoffMultiplier: 2,
+}
+
+/** Options consumed by the shared poll loop */
+export type PollStatementOptions = Pick<
+  ExecuteStatementOptions,
+  'onProgress' | 'enableMetrics' | 'logger' | 'tracer' | 'polling'
+> & {
+  /** Reference time for PollContext.elapsedMs */
+  startedAt: number
+  /** Span that records the last observed state */
+  span?: TraceSpan | undefined
+}
+
+export function isTerminalState(state: StatementState): boolean {
+  return TERMINAL_STATES.has(state)
+}
+
+/**
+ * Build the statement execution request body, skipping undefined values.
+ */
+export function buildStatementRequest(
+  query: StatementInput,
+  warehouseId: string,
+  options: ExecuteStatementOptions,
+  waitTimeout: string
+): ExecuteStatementRequest {
+  const { text, parameters } = resolveStatementInput(query, options.parameters)
+  return Object.fromEntries(
+    Object.entries({
+      warehouse_id: warehouseId,
+      statement: text,
+      byte_limit: options.byte_limit,
+      disposition: options.disposition,
+      format: options.format,
+      on_wait_timeout: options.on_wait_timeout ?? 'CONTINUE',
+      wait_timeout: waitTimeout,
+      row_limit: options.row_limit,
+      catalog: options.catalog,
+      schema: options.schema,
+      parameters,
+    }).filter(([, v]) => v !== undefined)
+  ) as ExecuteStatementRequest
+}
+
+/**
+ * Resolve the delay before the next poll.
+ * Starts short so queries that just missed the server wait return quickly,
+ * then backs off so long-running queries do not hammer the API.
+ * A custom getIntervalMs is capped only by an explicitly set maxIntervalMs.
+ */
+export function getPollInterval(strategy: PollingStrategy = {}, context: PollContext): number {
+  const { initialIntervalMs, maxIntervalMs, backoffMultiplier } = { ...DEFAULT_POLLING_STRATEGY, ...strategy }
+  if (!strategy.getIntervalMs)
+    return Math.min(initialIntervalMs * backoffMultiplier ** (context.attempt - 1), maxIntervalMs)
+
+  const interval = strategy.getIntervalMs(context)
+  // Guard against negative or non-finite values from custom functions.
+  if (!Number.isFinite(interval))
+    return maxIntervalMs
+  return Math.min(Math.max(interval, 0), strategy.maxIntervalMs ?? Infinity)
+}
+
+export async function fetchMetrics(
+  auth: AuthInfo,
+  statementId: string,
+  requestOptions: RequestOptions
+): Promise<QueryMetrics | undefined> {
+  const queryInfo = await getQueryMetrics(auth, statementId, requestOptions)
+  return queryInfo.metrics
+}
+
+/**
+ * Poll getStatement until the statement reaches a terminal state.
+ * Progress is reported after every poll and once more for the final state.
+ * Does not cancel on abort; callers decide whether an abort should cancel.
+ */
+export async function pollStatement(
+  auth: AuthInfo,
+  initial: StatementResult,
+  options: PollStatementOptions,
+  requestOptions: RequestOptions
+): Promise<StatementResult> {
+  const { onProgress, enableMetrics, logger, tracer, polling, startedAt, span } = options
+  const { signal } = requestOptions
+  let result = initial
+
+  // Helper to call onProgress with optional metrics
+  const emitProgress = onProgress
+    ? async () => onProgress(
+      result,
+      enableMetrics ? await fetchMetrics(auth, result.statement_id, requestOptions).catch(e => {
+        logger?.error?.(`executeStatement Failed to fetch query metrics for statement ${result.statement_id}: ${String(e)}`, { statementId: result.statement_id })
+        return undefined
+      }) : undefined
+    )
+    : undefined
+
+  try {
+    for (let iteration = 1; !isTerminalState(result.status.state); iteration++) {
+      const intervalMs = getPollInterval(polling, {
+        attempt: iteration,
+        elapsedMs: Date.now() - startedAt,
+        state: result.status.state,
+      })
+      logger?.info?.(`executeStatement Statement ${result.statement_id} in state ${result.status.state}; polling for status in ${intervalMs}ms...`)
+      result = await withSpan(tracer, 'databricks.executeStatement.poll', {
+        'databricks.statement_id': result.statement_id,
+        'databricks.poll.iteration': iteration,
+        'databricks.poll.interval_ms': intervalMs,
+      }, async (pollSpan) => {
+        await delay(intervalMs, signal)
+        const polled = await getStatement(auth, result.statement_id, requestOptions)
+        pollSpan?.setAttribute('databricks.statement.state', polled.status.state)
+        return polled
+      })
+      await emitProgress?.()
+    }
+  } finally {
+    span?.setAttribute('databricks.statement.state', result.status.state)
+  }
+
+  logger?.info?.(`executeStatement Statement ${result.statement_id} reached final state: ${result.status.state}`)
+
+  // Final progress callback
+  await emitProgress?.()
+  return result
+}
+
+/**
+ * Return a terminal result if it succeeded, otherwise throw the matching error.
+ */
+export function toSucceededResult(result: StatementResult): StatementResult {
+  if (result.status.state === 'SUCCEEDED')
+    return result
+
+  if (result.status.state === 'CANCELED')
+    throw new StatementCancelledError(result.statement_id)
+
+  // FAILED or CLOSED
+  throw new DatabricksSqlError(
+    result.status.error?.message ?? 'Statement execution failed',
+    result.status.error?.error_code,
+    result.statement_id
+  )
+}
@@ -0,0 +1,115 @@
+import type {
+  AuthInfo,
+  FetchAllOptions,
+  SignalOptions,
+  StatementHandle,
+  StatementInput,
+  StatementResult,
+  SubmitStatementOptions,
+  WaitStatementOptions,
+} from '../types.js'
+import { postStatement, getStatement, cancelStatement } from '../databricks-api.js'
+import { pickRequestOptions } from '../http.js'
+import { withSpan } from '../tracing.js'
+import { extractWarehouseId, throwIfAborted } from '../util.js'
+import { AbortError } from '../errors.js'
+import { buildStatementRequest, pollStatement, toSucceededResult } from './statement.js'
+import { fetchAll } from './fetchAll.js'
+import { ensureWarehouseRunning } from './ensureWarehouseRunning.js'
+
+/**
+ * Submit a SQL statement and return immediately with a handle.
+ * Uses a 0s server wait by default so the call does not block on execution.
+ */
+export async function submitStatement(
+  query: StatementInput,
+  auth: AuthInfo,
+  options: SubmitStatementOptions = {}
+): Promise<StatementHandle> {
+  const { signal, logger } = options
+  const warehouseId = options.warehouse_id ?? extractWarehouseId(auth.httpPath)
+
+  throwIfAborted(signal, 'submitStatement')
+
+  if (options.ensureWarehouseRunning)
+    await ensureWarehouseRunning(auth, warehouseId, {
+      ...pickRequestOptions(options, signal),
+      ...logger ? { logger } : {},
+      ...options.onWarehouseProgress ? { onWarehouseProgress: options.onWarehouseProgress } : {},
+    })
+
+  const request = buildStatementRequest(query, warehouseId, options, options.wait_timeout ?? '0s')
+  logger?.info?.(`submitStatement Submitting statement on warehouse ${warehouseId}...`)
+
+  const submittedAt = Date.now()
+  const submitted = await withSpan(options.tracer, 'databricks.submitStatement', {
+    'db.system': 'databricks',
+    'databricks.warehouse_id': warehouseId,
+  }, async (span) => {
+    const result = await postStatement(auth, request, pickRequestOptions(options, signal))
+    span?.setAttribute('databricks.statement_id', result.statement_id)
+    span?.setAttribute('databricks.statement.state', result.status.state)
+    return result
+  })
+  logger?.info?.(`submitStatement Statement ${submitted.statement_id} submitted in state ${submitted.status.state}.`)
+
+  return createStatementHandle(submitted, auth, options, submittedAt)
+}
+
+/**
+ * Build a handle around the latest known result of a statement.
+ * The handle reuses the HTTP, logger, tracer, and polling options it was created with.
+ */
+export function createStatementHandle(
+  initial: StatementResult,
+  auth: AuthInfo,
+  options: SubmitStatementOptions,
+  startedAt?: number
+): StatementHandle {
+  const { logger, tracer } = options
+  const statementId = initial.statement_id
+  let latest = initial
+
+  const status = async (statusOptions: SignalOptions = {}): Promise<StatementResult> => {
+    latest = await getStatement(auth, statementId, pickRequestOptions(options, statusOptions.signal))
+    return latest
+  }
+
+  const wait = (waitOptions: WaitStatementOptions = {}): Promise<StatementResult> =>
+    withSpan(tracer, 'databricks.waitStatement', {
+      'databricks.statement_id': statementId,
+    }, async (span) => {
+      const { signal } = waitOptions
+      throwIfAborted(signal, 'StatementHandle.wait')
+      try {
+        latest = await pollStatement(auth, latest, {
+          ...options,
+          ...waitOptions,
+          startedAt: startedAt ?? Date.now(),
+          span,
+        }, pickRequestOptions(options, signal))
+      } catch (err) {
+        // Stop waiting only; the statement keeps running until cancel() is called.
+        if (signal?.aborted)
+          throw new AbortError('Aborted while waiting for statement')
+        throw err
+      }
+      return toSucceededResult(latest)
+    })
+
+  const cancel = async (): Promise<void> => {
+    logger?.info?.(`StatementHandle Cancelling statement ${statementId}.`)
+    await cancelStatement(auth, statementId, pickRequestOptions(options))
+  }
+
+  const result = async (fetchOptions: FetchAllOptions = {}) => {
+    const succeeded = await wait(fetchOptions.signal ? { signal: fetchOptions.signal } : {})
+    return fetchAll(succeeded, auth, {
+      ...pickRequestOptions(options),
+      ...logger ? { logger } : {},
+      ...fetchOptions,
+    })
+  }
+
+  return { statementId, status, wait, cancel, result }
+}
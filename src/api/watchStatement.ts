@@ -0,0 +1,77 @@
+import type {
+  AuthInfo,
+  StatementState,
+  StatementStatusEvent,
+  WatchStatementOptions,
+} from '../types.js'
+import { getStatement } from '../databricks-api.js'
+import { pickRequestOptions } from '../http.js'
+import { delay, throwIfAborted } from '../util.js'
+import { AbortError } from '../errors.js'
+import { fetchMetrics, getPollInterval, isTerminalState } from './statement.js'
+
+/**
+ * Watch a statement's status as an async iterable.
+ * Yields an event per state transition (and per poll when metrics are enabled),
+ * ending after the terminal state. Terminal failures are yielded, not thrown.
+ * Polling is driven by the consumer; breaking out of the loop stops watching
+ * without cancelling the statement.
+ */
+export async function* watchStatement(
+  statementId: string,
+  auth: AuthInfo,
+  options: WatchStatementOptions = {}
+): AsyncGenerator<StatementStatusEvent, void, undefined> {
+  const { signal, enableMetrics, polling, logger } = options
+  const requestOptions = pickRequestOptions(options, signal)
+  const startedAt = Date.now()
+  let lastEventAt = startedAt
+  let previousState: StatementState | undefined
+
+  throwIfAborted(signal, 'watchStatement')
+  logger?.info?.(`watchStatement Watching statement ${statementId}...`)
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      if (previousState !== undefined)
+        await delay(getPollInterval(polling, {
+          attempt,
+          elapsedMs: Date.now() - startedAt,
+          state: previousState,
+        }), signal)
+
+      const result = await getStatement(auth, statementId, requestOptions)
+      const state = result.status.state
+
+      if (state !== previousState || enableMetrics) {
+        const metrics = enableMetrics
+          ? await fetchMetrics(auth, statementId, requestOptions).catch((e) => {
+            logger?.error?.(`watchStatement Failed to fetch query metrics for statement ${statementId}: ${String(e)}`, { statementId })
+            return undefined
+          })
+          : undefined
+        const now = Date.now()
+        yield {
+          statementId,
+          state,
+          previousState,
+          result,
+          ...metrics ? { metrics } : {},
+          elapsedMs: now - startedAt,
+          deltaMs: now - lastEventAt,
+        }
+        lastEventAt = now
+      }
+
+      previousState = state
+      if (isTerminalState(state)) {
+        logger?.info?.(`watchStatement Statement ${statementId} reached final state: ${state}`)
+        return
+      }
+    }
+  } catch (err) {
+    if (signal?.aborted && !(err instanceof AbortError))
+      throw new AbortError('Aborted while watching statement')
+    throw err
+  }
+}
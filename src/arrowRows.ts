@@ -0,0 +1,136 @@
+import type { Readable } from 'node:stream'
+import type { RowArray } from './types.js'
+
+import { DataType, Precision, RecordBatchReader, type Field, type RecordBatch } from 'apache-arrow'
+
+type Converter = (value: unknown) => unknown
+
+/**
+ * Decode Arrow IPC streams into JSON_ARRAY-shaped rows.
+ * Values are rendered the way the JSON_ARRAY format would send them
+ * (strings, with STRUCT/ARRAY/MAP as JSON text), so createRowMapper applies unchanged.
+ * Consecutive IPC streams (one per external link) are read in order.
+ */
+export async function* readArrowRows(stream: Readable): AsyncGenerator<RowArray> {
+  for await (const reader of RecordBatchReader.readAll(stream)) {
+    let converters: Converter[] | undefined
+    for await (const batch of reader) {
+      converters ??= batch.schema.fields.map((field) => createConverter(field.type, false))
+      yield* readBatchRows(batch, converters)
+    }
+  }
+}
+
+function* readBatchRows(batch: RecordBatch, converters: Converter[]): Generator<RowArray> {
+  const columns = converters.map((_, index) => batch.getChildAt(index))
+  for (let rowIndex = 0; rowIndex < batch.numRows; rowIndex++) {
+    const row: RowArray = new Array(columns.length)
+    for (let columnIndex = 0; columnIndex < columns.length; columnIndex++)
+      row[columnIndex] = converters[columnIndex]!(columns[columnIndex]?.get(rowIndex) ?? null)
+    yield row
+  }
+}
+
+/**
+ * Top-level values become strings; nested values keep JSON-native numbers and booleans
+ * so the containing STRUCT/ARRAY/MAP serializes to the same JSON text the server would send.
+ */
+function createConverter(type: DataType, nested: boolean): Converter {
+  const withNull = (convert: Converter): Converter => (value) =>
+    value === null || value === undefined ? null : convert(value)
+
+  if (DataType.isStruct(type)) {
+    const fields = type.children.map((field: Field) => ({
+      name: field.name,
+      convert: createConverter(field.type, true),
+    }))
+    return withNull(asJson(nested, (value) => {
+      const struct = value as Record<string, unknown>
+      return Object.fromEntries(fields.map(({ name, convert }) => [name, convert(struct[name])]))
+    }))
+  }
+
+  if (DataType.isList(type) || DataType.isFixedSizeList(type)) {
+    const convert = createConverter(type.children[0]!.type, true)
+    return withNull(asJson(nested, (value) => Array.from(value as Iterable<unknown>, convert)))
+  }
+
+  if (DataType.isMap(type)) {
+    const [keyField, valueField] = type.children[0]!.type.children as Field[]
+    const convertKey = createConverter(keyField!.type, true)
+    const convertValue = createConverter(valueField!.type, true)
+    return withNull(asJson(nested, (value) => Object.fromEntries(
+      Array.from(value as Iterable<[unknown, unknown]>, ([key, entry]) => [String(convertKey(key)), convertValue(entry)])
+    )))
+  }
+
+  if (DataType.isBool(type))
+    return withNull((value) => nested ? value : String(value))
+
+  if (DataType.isInt(type) && type.bitWidth < 64)
+    return withNull((value) => nested ? value : String(value))
+
+  if (DataType.isFloat(type)) {
+    const format = type.precision === Precision.SINGLE ? formatFloat32 : String
+    return withNull((value) => {
+      const number = value as number
+      // NaN and Infinity are not valid JSON numbers, so keep them as strings even when nested.
+      if (nested && Number.isFinite(number))
+        return Number(format(number))
+      return format(number)
+    })
+  }
+
+  if (DataType.isDecimal(type)) {
+    const { scale } = type
+    return withNull((value) => applyDecimalScale(String(value), scale))
+  }
+
+  if (DataType.isDate(type))
+    return withNull((value) => new Date(value as number).toISOString().slice(0, 10))
+
+  if (DataType.isTimestamp(type)) {
+    const hasTimeZone = Boolean(type.timezone)
+    return withNull((value) => formatTimestamp(value as number, hasTimeZone))
+  }
+
+  if (DataType.isBinary(type) || DataType.isLargeBinary(type) || DataType.isFixedSizeBinary(type))
+    return withNull((value) => Buffer.from(value as Uint8Array).toString('base64'))
+
+  // Strings, 64-bit integers (bigint), and anything else render as text.
+  return withNull(String)
+}
+
+function asJson(nested: boolean, convert: Converter): Converter {
+  return nested ? convert : (value) => JSON.stringify(convert(value))
+}
+
+// Shortest decimal text that round-trips to the same 32-bit float (0.1, not 0.10000000149011612).
+function formatFloat32(value: number): string {
+  if (!Number.isFinite(value))
+    return String(value)
+  for (let precision = 1; precision < 9; precision++) {
+    const text = value.toPrecision(precision)
+    if (Math.fround(Number(text)) === value)
+      return String(Number(text))
+  }
+  return String(value)
+}
+
+function applyDecimalScale(unscaled: string, scale: number): string {
+  if (scale <= 0)
+    return unscaled
+  const negative = unscaled.startsWith('-')
+  const digits = (negative ? unscaled.slice(1) : unscaled).padStart(scale + 1, '0')
+  const text = `${digits.slice(0, -scale)}.${digits.slice(-scale)}`
+  return negative ? `-${text}` : text
+}
+
+// Arrow exposes timestamps as (possibly fractional) epoch milliseconds; keep microseconds when present.
+function formatTimestamp(epochMs: number, hasTimeZone: boolean): string {
+  const wholeMs = Math.floor(epochMs)
+  const micros = Math.min(Math.round((epochMs - wholeMs) * 1000), 999)
+  const iso = new Date(wholeMs).toISOString().slice(0, -1)
+  const text = micros > 0 ? `${iso}${String(micros).padStart(3, '0')}` : iso
+  return hasTimeZone ? `${text}Z` : text
+}
@@ -0,0 +1,125 @@
+import type { AuthInfo, GetTokenOptions, HttpOptions, OAuthM2MAuthInfo } from './types.js'
+import { createHash } from 'node:crypto'
+import { AuthenticationError, HttpError } from './errors.js'
+import { buildUrl, fetchWithOptions, throwIfAborted } from './util.js'
+
+// Workspace-level OAuth token endpoint.
+const TOKEN_PATH = '/oidc/v1/token'
+const DEFAULT_SCOPE = 'all-apis'
+// Refresh tokens this long before they expire to avoid mid-request expiry.
+const REFRESH_MARGIN_MS = 60_000
+
+type CachedToken = {
+  accessToken: string
+  expiresAt: number
+}
+
+type TokenResponse = {
+  access_token?: string
+  token_type?: string
+  expires_in?: number
+}
+
+const tokenCache = new Map<string, CachedToken>()
+const pendingTokens = new Map<string, Promise<CachedToken>>()
+
+/**
+ * Resolve the bearer token for a request.
+ * Personal access tokens are returned as-is; OAuth M2M tokens are cached
+ * per host/client/secret and refreshed shortly before expiry; credentials providers
+ * are called on every request.
+ */
+export async function getAccessToken(
+  auth: AuthInfo,
+  options: GetTokenOptions = { forceRefresh: false },
+  httpOptions: HttpOptions = {}
+): Promise<string> {
+  const { forceRefresh, signal } = options
+
+  if ('token' in auth)
+    return auth.token
+
+  throwIfAborted(signal, 'getAccessToken')
+
+  if ('getToken' in auth) {
+    const token = await auth.getToken(options)
+    throwIfAborted(signal, 'getAccessToken')
+    return token
+  }
+
+  const key = getCacheKey(auth)
+  if (forceRefresh)
+    tokenCache.delete(key)
+
+  const cached = tokenCache.get(key)
+  if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now())
+    return cached.accessToken
+
+  // Share a single token request between concurrent callers.
+  let pending = pendingTokens.get(key)
+  if (!pending) {
+    pending = requestClientCredentialsToken(auth, httpOptions)
+      .then((token) => {
+        tokenCache.set(key, token)
+        return token
+      })
+      .finally(() => pendingTokens.delete(key))
+    pendingTokens.set(key, pending)
+  }
+
+  const token = await pending
+  throwIfAborted(signal, 'getAccessToken')
+  return token.accessToken
+}
+
+/**
+ * Whether a rejected token can be replaced by asking for a new one.
+ * Static personal access tokens cannot be refreshed.
+ */
+export function isRefreshableAuth(auth: AuthInfo): boolean {
+  return !('token' in auth)
+}
+
+// The secret is part of the key so a wrong or revoked secret never reuses a token issued for the valid one.
+function getCacheKey(auth: OAuthM2MAuthInfo): string {
+  const secretHash = createHash('sha256').update(auth.clientSecret).digest('hex')
+  return [auth.host, auth.clientId, secretHash, auth.scope ?? DEFAULT_SCOPE].join('|')
+}
+
+async function requestClientCredentialsToken(
+  auth: OAuthM2MAuthInfo,
+  httpOptions: HttpOptions
+): Promise<CachedToken> {
+  const credentials = Buffer.from(`${auth.clientId}:${auth.clientSecret}`).toString('base64')
+  const response = await fetchWithOptions(buildUrl(auth.host, TOKEN_PATH), {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${credentials}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      scope: auth.scope ?? DEFAULT_SCOPE,
+    }).toString(),
+  }, httpOptions)
+
+  if (response.status === 400 || response.status === 401)
+    throw new AuthenticationError(
+      `OAuth token request failed for client ${auth.clientId}. Check your client ID and secret.`
+    )
+
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => '')
+    throw new HttpError(response.status, response.statusText, errorBody)
+  }
+
+  const body = (await response.json()) as TokenResponse
+  if (!body.access_token)
+    throw new AuthenticationError('OAuth token response did not include an access_token')
+
+  return {
+    accessToken: body.access_token,
+    expiresAt: Date.now() + (body.expires_in ?? 0) * 1000,
+  }
+}
@@ -0,0 +1,159 @@
+import type {
+  AuthInfo,
+  CredentialsProviderAuthInfo,
+  ExecuteStatementOptions,
+  MemoryCacheStoreOptions,
+  ResultCacheStore,
+  StatementInput,
+  StatementResult,
+} from './types.js'
+
+import { createHash, randomUUID } from 'node:crypto'
+
+import { resolveStatementInput } from './sql.js'
+import { skipBlockComment, skipLineComment } from './splitSqlStatements.js'
+
+const DEFAULT_MAX_ENTRIES = 100
+// Drop results whose external links expire within this window, so callers have time to download them.
+const LINK_EXPIRY_MARGIN_MS = 60_000
+
+// Credentials providers have no stable identity, so each provider function gets its own.
+const providerIdentities = new WeakMap<CredentialsProviderAuthInfo['getToken'], string>()
+
+type MemoryCacheEntry = {
+  value: StatementResult
+  expiresAt: number
+}
+
+/**
+ * In-memory LRU store with per-entry TTL.
+ * Reads refresh recency; the least recently used entry is evicted when full.
+ */
+export function createMemoryCacheStore(options: MemoryCacheStoreOptions = {}): ResultCacheStore {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES
+  // Map iteration order doubles as the LRU order (oldest first).
+  const entries = new Map<string, MemoryCacheEntry>()
+
+  return {
+    get(key) {
+      const entry = entries.get(key)
+      if (!entry)
+        return undefined
+      entries.delete(key)
+      if (entry.expiresAt <= Date.now())
+        return undefined
+      entries.set(key, entry)
+      return entry.value
+    },
+    set(key, value, ttlMs) {
+      entries.delete(key)
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value
+        if (oldest === undefined)
+          break
+        entries.delete(oldest)
+      }
+    },
+    delete(key) {
+      entries.delete(key)
+    },
+  }
+}
+
+/**
+ * Build a cache key from everything that determines a statement's result:
+ * workspace host and caller identity, warehouse, catalog/schema, normalized SQL text,
+ * parameters, and result shape. A shared store never serves one principal's rows to another.
+ */
+export function buildCacheKey(
+  query: StatementInput,
+  auth: AuthInfo,
+  warehouseId: string,
+  options: ExecuteStatementOptions
+): string {
+  const { text, parameters } = resolveStatementInput(query, options.parameters)
+  const namespace = options.cache?.namespace
+  const material = JSON.stringify([
+    auth.host,
+    getCallerIdentity(auth, namespace),
+    namespace ?? null,
+    warehouseId,
+    options.catalog ?? null,
+    options.schema ?? null,
+    normalizeSql(text),
+    parameters ?? [],
+    options.disposition ?? null,
+    options.format ?? null,
+    options.row_limit ?? null,
+    options.byte_limit ?? null,
+  ])
+  return hash(material)
+}
+
+function getCallerIdentity(auth: AuthInfo, namespace: string | undefined): string {
+  if ('token' in auth)
+    return `token:${hash(auth.token)}`
+  if ('clientId' in auth)
+    return `client:${auth.clientId}`
+  if (namespace !== undefined)
+    return 'provider'
+  let identity = providerIdentities.get(auth.getToken)
+  if (!identity) {
+    identity = `provider:${randomUUID()}`
+    providerIdentities.set(auth.getToken, identity)
+  }
+  return identity
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+/**
+ * Collapse whitespace and drop a trailing semicolon outside quoted text and comments,
+ * so formatting differences map to the same key. Comments are kept verbatim, line
+ * break included, so text after a `--` comment never moves into it.
+ */
+export function normalizeSql(text: string): string {
+  let normalized = ''
+  let quote: string | undefined
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!
+    if (quote) {
+      normalized += char
+      if (char === '\\' && quote !== '`')
+        normalized += text[++i] ?? ''
+      else if (char === quote)
+        quote = undefined
+      continue
+    }
+    if (text.startsWith('--', i) || text.startsWith('/*', i)) {
+      const end = char === '-' ? skipLineComment(text, i) : skipBlockComment(text, i)
+      normalized += text.slice(i, end)
+      i = end - 1
+      continue
+    }
+    if (char === '\'' || char === '"' || char === '`')
+      quote = char
+    if (/\s/.test(char)) {
+      if (!/\s$/.test(normalized))
+        normalized += ' '
+      continue
+    }
+    normalized += char
+  }
+  return normalized.trim().replace(/\s*;$/, '')
+}
+
+/**
+ * Milliseconds a result may stay cached: the configured TTL, shortened so that
+ * no external link expires while the entry is still served. Zero means do not cache.
+ */
+export function getCacheTtl(result: StatementResult, ttlMs: number, now: number = Date.now()): number {
+  const expirations = (result.result?.external_links ?? []).map((link) => Date.parse(link.expiration))
+  if (expirations.length === 0)
+    return ttlMs
+  const linkTtl = Math.min(...expirations) - LINK_EXPIRY_MARGIN_MS - now
+  return Number.isNaN(linkTtl) ? 0 : Math.max(0, Math.min(ttlMs, linkTtl))
+}
@@ -0,0 +1,256 @@
+import type { StatementManifest } from './types.js'
+
+import { Transform } from 'node:stream'
+
+import { DatabricksSqlError } from './errors.js'
+
+/**
+ * Joins external link payloads downloaded one after another into a single result:
+ * one JSON array, one CSV header, one Arrow IPC stream.
+ */
+export type ChunkJoiner = {
+  /** Transform for the next link's bytes; use one per link, in link order */
+  next(): Transform
+  /** Bytes that close the joined output, written after the last link */
+  end(): Buffer
+}
+
+const NEWLINE = 0x0a
+const QUOTE = 0x22
+const OPEN_BRACKET = 0x5b
+const CLOSE_BRACKET = 0x5d
+// Arrow IPC framing: continuation marker, then a 0 metadata length for end-of-stream.
+const ARROW_CONTINUATION = 0xffffffff
+const ARROW_EOS = Buffer.from([0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0])
+const ARROW_SCHEMA_MESSAGE = 1
+
+export function createChunkJoiner(format: StatementManifest['format']): ChunkJoiner {
+  if (format === 'JSON_ARRAY')
+    return createJsonArrayJoiner()
+  if (format === 'CSV')
+    return createCsvJoiner()
+  if (format === 'ARROW_STREAM')
+    return createArrowJoiner()
+  throw new DatabricksSqlError(`Cannot join external links in ${format} format`, 'UNSUPPORTED_FORMAT')
+}
+
+/** Strips each array's brackets and joins the rows with commas inside one outer array */
+function createJsonArrayJoiner(): ChunkJoiner {
+  let opened = false
+  let rowsWritten = false
+
+  return {
+    next() {
+      let seenOpen = false
+      let hasRows = false
+      // Trailing bytes from the last non-whitespace byte on; the closing bracket sits here.
+      let pending: Buffer = Buffer.alloc(0)
+
+      const emit = (stream: Transform, segment: Buffer) => {
+        if (!opened) {
+          opened = true
+          stream.push('[')
+        }
+        if (!hasRows && segment.some((byte) => !isWhitespace(byte))) {
+          hasRows = true
+          if (rowsWritten)
+            stream.push(',')
+          rowsWritten = true
+        }
+        stream.push(segment)
+      }
+
+      return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          const data = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk
+          pending = Buffer.alloc(0)
+          let start = 0
+          if (!seenOpen) {
+            while (start < data.length && isWhitespace(data[start]!))
+              start++
+            if (start === data.length)
+              return callback()
+            if (data[start] !== OPEN_BRACKET)
+              return callback(new DatabricksSqlError('Expected JSON_ARRAY chunk to start with [', 'INVALID_FORMAT'))
+            seenOpen = true
+            start++
+          }
+
+          let last = data.length - 1
+          while (last >= start && isWhitespace(data[last]!))
+            last--
+          if (last < start) {
+            pending = data.subarray(start)
+            return callback()
+          }
+          if (last > start)
+            emit(this, data.subarray(start, last))
+          pending = data.subarray(last)
+          callback()
+        },
+        flush(callback) {
+          if (seenOpen && pending[0] !== CLOSE_BRACKET)
+            return callback(new DatabricksSqlError('Expected JSON_ARRAY chunk to end with ]', 'INVALID_FORMAT'))
+          callback()
+        },
+      })
+    },
+    end() {
+      return Buffer.from(opened ? ']' : '[]')
+    },
+  }
+}
+
+/** Keeps the first link's header row and drops the header row of every later link */
+function createCsvJoiner(): ChunkJoiner {
+  let linkCount = 0
+  let lastByte: number | undefined
+
+  return {
+    next() {
+      let skippingHeader = linkCount++ > 0
+      let separate = skippingHeader
+      let inQuotes = false
+
+      return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          let start = 0
+          if (skippingHeader) {
+            // A line break inside a quoted column name does not end the header.
+            while (start < chunk.length && skippingHeader) {
+              const byte = chunk[start++]
+              if (byte === QUOTE)
+                inQuotes = !inQuotes
+              else if (byte === NEWLINE && !inQuotes)
+                skippingHeader = false
+            }
+          }
+          if (start >= chunk.length)
+            return callback()
+
+          // Rows of the previous link may end without a line break.
+          if (separate && lastByte !== undefined && lastByte !== NEWLINE)
+            this.push('\n')
+          separate = false
+          const data = start > 0 ? chunk.subarray(start) : chunk
+          lastByte = data[data.length - 1]
+          callback(null, data)
+        },
+      })
+    },
+    end() {
+      return Buffer.alloc(0)
+    },
+  }
+}
+
+/**
+ * Keeps the first link's schema, drops the schema of every later link,
+ * and replaces every end-of-stream marker with a single one at the end.
+ */
+function createArrowJoiner(): ChunkJoiner {
+  let linkCount = 0
+
+  return {
+    next() {
+      const keepSchema = linkCount++ === 0
+      let buffered: Buffer = Buffer.alloc(0)
+      let bodyRemaining = 0
+      let keepBody = false
+      let ended = false
+
+      return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          let data = buffered.length > 0 ? Buffer.concat([buffered, chunk]) : chunk
+          buffered = Buffer.alloc(0)
+
+          while (data.length > 0 && !ended) {
+            // Stream message bodies through without buffering them.
+            if (bodyRemaining > 0) {
+              const body = data.subarray(0, bodyRemaining)
+              bodyRemaining -= body.length
+              if (keepBody)
+                this.push(body)
+              data = data.subarray(body.length)
+              continue
+            }
+
+            const message = readArrowMessageHeader(data)
+            if (message === 'incomplete') {
+              buffered = data
+              break
+            }
+            if (message === 'end') {
+              ended = true
+              break
+            }
+            keepBody = keepSchema || message.headerType !== ARROW_SCHEMA_MESSAGE
+            if (keepBody)
+              this.push(data.subarray(0, message.headerLength))
+            bodyRemaining = message.bodyLength
+            data = data.subarray(message.headerLength)
+          }
+          callback()
+        },
+        flush(callback) {
+          if (buffered.length > 0 || bodyRemaining > 0)
+            return callback(new DatabricksSqlError('ARROW_STREAM chunk ended inside a message', 'INVALID_FORMAT'))
+          callback()
+        },
+      })
+    },
+    end() {
+      return linkCount > 0 ? ARROW_EOS : Buffer.alloc(0)
+    },
+  }
+}
+
+type ArrowMessageHeader = {
+  /** Framing plus metadata bytes */
+  headerLength: number
+  headerType: number
+  bodyLength: number
+}
+
+/**
+ * Read an IPC message prefix and its flatbuffer metadata for the header type and body length.
+ * Accepts the pre-1.0 framing without the continuation marker.
+ */
+function readArrowMessageHeader(data: Buffer): ArrowMessageHeader | 'incomplete' | 'end' {
+  if (data.length < 4)
+    return 'incomplete'
+  let prefixLength = 4
+  let metadataLength = data.readUInt32LE(0)
+  if (metadataLength === ARROW_CONTINUATION) {
+    if (data.length < 8)
+      return 'incomplete'
+    prefixLength = 8
+    metadataLength = data.readUInt32LE(4)
+  }
+  if (metadataLength === 0)
+    return 'end'
+  if (data.length < prefixLength + metadataLength)
+    return 'incomplete'
+
+  // Message table fields: version, header_type, header, bodyLength.
+  const metadata = data.subarray(prefixLength, prefixLength + metadataLength)
+  const table = metadata.readUInt32LE(0)
+  const vtable = table - metadata.readInt32LE(table)
+  const vtableLength = metadata.readUInt16LE(vtable)
+  const fieldOffset = (field: number) => {
+    const entry = 4 + field * 2
+    return entry < vtableLength ? metadata.readUInt16LE(vtable + entry) : 0
+  }
+  const headerTypeOffset = fieldOffset(1)
+  const bodyLengthOffset = fieldOffset(3)
+
+  return {
+    headerLength: prefixLength + metadataLength,
+    headerType: headerTypeOffset ? metadata.readUInt8(table + headerTypeOffset) : 0,
+    bodyLength: bodyLengthOffset ? Number(metadata.readBigInt64LE(table + bodyLengthOffset)) : 0,
+  }
+}
+
+function isWhitespace(byte: number): boolean {
+  return byte === 0x20 || byte === 0x09 || byte === NEWLINE || byte === 0x0d
+}
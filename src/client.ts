@@ -0,0 +1,225 @@
+import type { Readable } from 'node:stream'
+import type {
+  AttachStatementOptions,
+  AuthInfo,
+  ClientExecuteOptions,
+  ClientMergeOptions,
+  ClientQueryOptions,
+  ClientScriptOptions,
+  ClientStreamOptions,
+  ConcurrencyLimiter,
+  DatabricksSqlClientOptions,
+  ExecuteStatementOptions,
+  QueuedTaskOptions,
+  RowArray,
+  RowObject,
+  ScriptResult,
+  StatementHandle,
+  StatementInput,
+  StatementResult,
+  StatementStatusEvent,
+  SubmitStatementOptions,
+  WarehouseQueueStats,
+  WatchStatementOptions,
+} from './types.js'
+
+import {
+  attachStatement,
+  executeScript,
+  executeStatement,
+  fetchAll,
+  fetchRows,
+  fetchStream,
+  mergeExternalLinks,
+  submitStatement,
+  watchStatement,
+} from './api/index.js'
+import { pickRequestOptions } from './http.js'
+import { createConcurrencyLimiter } from './limiter.js'
+import { extractWarehouseId } from './util.js'
+
+/**
+ * Stateful client that holds auth and shared defaults,
+ * forwarding each call to the corresponding free function.
+ */
+export class DatabricksSqlClient {
+  readonly auth: AuthInfo
+  readonly options: DatabricksSqlClientOptions
+  private readonly limiter: ConcurrencyLimiter | undefined
+
+  constructor(auth: AuthInfo, options: DatabricksSqlClientOptions = {}) {
+    this.auth = auth
+    this.options = options
+    const { concurrency } = options
+    this.limiter = concurrency && !('run' in concurrency)
+      ? createConcurrencyLimiter(concurrency)
+      : concurrency
+  }
+
+  /**
+   * Execute a statement and poll until completion.
+   * @see executeStatement
+   */
+  execute(query: StatementInput, options: ClientExecuteOptions = {}): Promise<StatementResult> {
+    return this.limit(options, (executeOptions) =>
+      executeStatement(query, this.auth, this.withExecuteDefaults(executeOptions)))
+  }
+
+  /**
+   * Execute a multi-statement script in order.
+   * The whole script holds a single concurrency slot.
+   * @see executeScript
+   */
+  script(sqlText: string, options: ClientScriptOptions = {}): Promise<ScriptResult> {
+    return this.limit(options, (scriptOptions) =>
+      executeScript(sqlText, this.auth, this.withExecuteDefaults(scriptOptions)))
+  }
+
+  /**
+   * Submit a statement without waiting for completion.
+   * @see submitStatement
+   */
+  submit(query: StatementInput, options: SubmitStatementOptions = {}): Promise<StatementHandle> {
+    return submitStatement(query, this.auth, this.withExecuteDefaults(options))
+  }
+
+  /**
+   * Resume polling a statement submitted elsewhere.
+   * @see attachStatement
+   */
+  attach(statementId: string, options: AttachStatementOptions = {}): Promise<StatementResult> {
+    return attachStatement(statementId, this.auth, {
+      ...compact({ logger: this.options.logger, polling: this.options.polling }),
+      ...pickRequestOptions(this.options),
+      ...options,
+    })
+  }
+
+  /**
+   * Watch status transitions of a statement.
+   * @see watchStatement
+   */
+  watch(statementId: string, options: WatchStatementOptions = {}): AsyncIterable<StatementStatusEvent> {
+    return watchStatement(statementId, this.auth, {
+      ...compact({ logger: this.options.logger, polling: this.options.polling }),
+      ...pickRequestOptions(this.options),
+      ...options,
+    })
+  }
+
+  /**
+   * Execute a statement and collect all rows.
+   * @see fetchAll
+   */
+  async query(query: StatementInput, options: ClientQueryOptions = {}): Promise<Array<RowArray | RowObject>> {
+    const { rowFormat, encodeBigInt, encodeTimestamp, ...executeOptions } = options
+    const resolved = this.withExecuteDefaults({
+      ...compact({ cache: this.options.cache }),
+      ...executeOptions,
+    })
+    const result = await this.limit(resolved, (limited) => executeStatement(query, this.auth, limited))
+
+    return fetchAll(result, this.auth, compact({
+      ...pickRequestOptions(resolved, resolved.signal),
+      logger: resolved.logger,
+      format: rowFormat ?? this.options.rowFormat,
+      encodeBigInt: encodeBigInt ?? this.options.encodeBigInt,
+      encodeTimestamp: encodeTimestamp ?? this.options.encodeTimestamp,
+    }))
+  }
+
+  /**
+   * Execute a statement and iterate its rows as they are fetched.
+   * @see fetchRows
+   */
+  async *rows(query: StatementInput, options: ClientQueryOptions = {}): AsyncGenerator<RowArray | RowObject, void, undefined> {
+    const { rowFormat, encodeBigInt, encodeTimestamp, ...executeOptions } = options
+    const resolved = this.withExecuteDefaults(executeOptions)
+    const result = await this.limit(resolved, (limited) => executeStatement(query, this.auth, limited))
+
+    yield* fetchRows(result, this.auth, compact({
+      ...pickRequestOptions(resolved, resolved.signal),
+      logger: resolved.logger,
+      format: rowFormat ?? this.options.rowFormat,
+      encodeBigInt: encodeBigInt ?? this.options.encodeBigInt,
+      encodeTimestamp: encodeTimestamp ?? this.options.encodeTimestamp,
+    }))
+  }
+
+  /**
+   * Execute a statement with EXTERNAL_LINKS disposition and stream the merged result.
+   * @see fetchStream
+   */
+  async stream(query: StatementInput, options: ClientStreamOptions = {}): Promise<Readable> {
+    const { forceMerge, ...executeOptions } = options
+    const resolved = this.withExecuteDefaults({ disposition: 'EXTERNAL_LINKS', ...executeOptions })
+    const result = await this.limit(resolved, (limited) => executeStatement(query, this.auth, limited))
+
+    return fetchStream(result, this.auth, {
+      ...pickRequestOptions(resolved, resolved.signal),
+      ...compact({ logger: resolved.logger, forceMerge }),
+    })
+  }
+
+  /**
+   * Execute a statement with EXTERNAL_LINKS disposition and upload the merged result.
+   * @see mergeExternalLinks
+   */
+  async merge(query: StatementInput, options: ClientMergeOptions): Promise<StatementResult> {
+    const { mergeStreamToExternalLink, forceMerge, ...executeOptions } = options
+    const resolved = this.withExecuteDefaults({ disposition: 'EXTERNAL_LINKS', ...executeOptions })
+    const result = await this.limit(resolved, (limited) => executeStatement(query, this.auth, limited))
+
+    return mergeExternalLinks(result, this.auth, {
+      mergeStreamToExternalLink,
+      ...pickRequestOptions(resolved, resolved.signal),
+      ...compact({ logger: resolved.logger, forceMerge }),
+    })
+  }
+
+  /**
+   * Queue depth and wait times per warehouse.
+   * Empty when the client has no concurrency limit.
+   */
+  getQueueStats(): WarehouseQueueStats[] {
+    return this.limiter?.getStats() ?? []
+  }
+
+  // Run statement execution through the limiter; fetching results does not hold a slot.
+  private limit<O extends ExecuteStatementOptions, T>(
+    options: O & QueuedTaskOptions,
+    task: (options: O) => Promise<T>
+  ): Promise<T> {
+    const { priority, queueTimeoutMs, ...taskOptions } = options
+    if (!this.limiter)
+      return task(taskOptions as O)
+    const warehouseId = options.warehouse_id ?? extractWarehouseId(this.auth.httpPath)
+    return this.limiter.run(warehouseId, () => task(taskOptions as O), compact({
+      priority,
+      queueTimeoutMs,
+      signal: options.signal,
+    }))
+  }
+
+  private withExecuteDefaults<O extends ExecuteStatementOptions>(options: O): O {
+    return {
+      ...compact({
+        catalog: this.options.catalog,
+        schema: this.options.schema,
+        logger: this.options.logger,
+        polling: this.options.polling,
+      }),
+      ...pickRequestOptions(this.options),
+      ...options,
+    }
+  }
+}
+
+// Drop undefined values so optional properties stay absent.
+function compact<T extends Record<string, unknown>>(
+  value: T
+): { [K in keyof T]?: Exclude<T[K], undefined> } {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as { [K in keyof T]?: Exclude<T[K], undefined> }
+}
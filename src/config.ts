@@ -0,0 +1,161 @@
+import type { AuthInfo, ResolveAuthOptions } from './types.js'
+
+import { readFile } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+
+import { ConfigurationError } from './errors.js'
+
+const DEFAULT_PROFILE = 'DEFAULT'
+const DEFAULT_CONFIG_FILE = '.databrickscfg'
+
+type ProfileSection = Record<string, string>
+
+/** Connection attributes collected from a single configuration source */
+type ConfigAttributes = {
+  host?: string
+  token?: string
+  clientId?: string
+  clientSecret?: string
+  httpPath?: string
+  warehouseId?: string
+}
+
+/**
+ * Resolve AuthInfo from DATABRICKS_* environment variables and a
+ * `.databrickscfg` profile, using the same conventions as the official tools.
+ *
+ * Precedence (per attribute): environment variables, then the profile.
+ * `http_path` wins over `warehouse_id` within the same source.
+ * @throws {ConfigurationError} If the profile is missing or the resolved configuration is incomplete
+ */
+export async function resolveAuth(options: ResolveAuthOptions = {}): Promise<AuthInfo> {
+  const env = options.env ?? process.env
+  const profileName = options.profile ?? env.DATABRICKS_CONFIG_PROFILE ?? DEFAULT_PROFILE
+  // A missing file or profile is only an error when the caller asked for it explicitly.
+  const profileRequired = options.profile !== undefined || env.DATABRICKS_CONFIG_PROFILE !== undefined
+  const configFile = options.configFile
+    ?? env.DATABRICKS_CONFIG_FILE
+    ?? join(homedir(), DEFAULT_CONFIG_FILE)
+
+  const fromEnv = readEnvAttributes(env)
+  const fromProfile = await readProfileAttributes(configFile, profileName, profileRequired)
+  const source = `environment variables or profile "${profileName}" in ${configFile}`
+
+  const host = fromEnv.host ?? fromProfile.host
+  if (!host)
+    throw new ConfigurationError(`Missing Databricks host. Set DATABRICKS_HOST or "host" in ${source}.`)
+
+  const httpPath = resolveHttpPath(fromEnv) ?? resolveHttpPath(fromProfile)
+  if (!httpPath)
+    throw new ConfigurationError(
+      `Missing SQL warehouse. Set DATABRICKS_HTTP_PATH, DATABRICKS_WAREHOUSE_ID, "http_path" or "warehouse_id" in ${source}.`
+    )
+
+  const token = fromEnv.token ?? fromProfile.token
+  if (token)
+    return { host, httpPath, token }
+
+  const clientId = fromEnv.clientId ?? fromProfile.clientId
+  const clientSecret = fromEnv.clientSecret ?? fromProfile.clientSecret
+  if (clientId && clientSecret)
+    return { host, httpPath, clientId, clientSecret }
+
+  if (clientId || clientSecret)
+    throw new ConfigurationError(
+      `Incomplete OAuth credentials. Both client ID and client secret are required in ${source}.`
+    )
+
+  throw new ConfigurationError(
+    `Missing Databricks credentials. Set DATABRICKS_TOKEN or DATABRICKS_CLIENT_ID/DATABRICKS_CLIENT_SECRET, or "token" or "client_id"/"client_secret" in ${source}.`
+  )
+}
+
+/**
+ * Parse an INI-formatted `.databrickscfg` file into profile sections.
+ * Keys are lowercased; `#` and `;` start comment lines.
+ */
+export function parseDatabricksConfig(content: string): Map<string, ProfileSection> {
+  const profiles = new Map<string, ProfileSection>()
+  let current: ProfileSection | undefined
+
+  for (const [index, rawLine] of content.split(/\r?\n/).entries()) {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#') || line.startsWith(';'))
+      continue
+
+    const section = line.match(/^\[(.+)\]$/)
+    if (section?.[1]) {
+      const name = section[1].trim()
+      current = profiles.get(name) ?? {}
+      profiles.set(name, current)
+      continue
+    }
+
+    const separatorIndex = line.search(/[=:]/)
+    if (separatorIndex === -1 || !current)
+      throw new ConfigurationError(`Invalid line ${index + 1} in Databricks config: ${line}`)
+
+    const key = line.slice(0, separatorIndex).trim().toLowerCase()
+    current[key] = line.slice(separatorIndex + 1).trim()
+  }
+
+  return profiles
+}
+
+function readEnvAttributes(env: Record<string, string | undefined>): ConfigAttributes {
+  return compactAttributes({
+    host: env.DATABRICKS_HOST,
+    token: env.DATABRICKS_TOKEN,
+    clientId: env.DATABRICKS_CLIENT_ID,
+    clientSecret: env.DATABRICKS_CLIENT_SECRET,
+    httpPath: env.DATABRICKS_HTTP_PATH,
+    warehouseId: env.DATABRICKS_WAREHOUSE_ID,
+  })
+}
+
+async function readProfileAttributes(
+  configFile: string,
+  profileName: string,
+  profileRequired: boolean
+): Promise<ConfigAttributes> {
+  let content: string
+  try {
+    content = await readFile(configFile, 'utf8')
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT' && !profileRequired)
+      return {}
+    throw new ConfigurationError(`Cannot read Databricks config file ${configFile}: ${String(err)}`)
+  }
+
+  const profile = parseDatabricksConfig(content).get(profileName)
+  if (!profile) {
+    if (!profileRequired)
+      return {}
+    throw new ConfigurationError(`Profile "${profileName}" not found in ${configFile}`)
+  }
+
+  return compactAttributes({
+    host: profile.host,
+    token: profile.token,
+    clientId: profile.client_id,
+    clientSecret: profile.client_secret,
+    httpPath: profile.http_path,
+    warehouseId: profile.warehouse_id,
+  })
+}
+
+function resolveHttpPath(attributes: ConfigAttributes): string | undefined {
+  if (attributes.httpPath)
+    return attributes.httpPath
+  if (attributes.warehouseId)
+    return `/sql/1.0/warehouses/${attributes.warehouseId}`
+  return undefined
+}
+
+// Drop empty values so that blank settings do not shadow lower-precedence sources.
+function compactAttributes(attributes: Record<keyof ConfigAttributes, string | undefined>): ConfigAttributes {
+  return Object.fromEntries(
+    Object.entries(attributes).filter(([, v]) => v !== undefined && v.trim() !== '')
+  ) as ConfigAttributes
+}
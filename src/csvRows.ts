@@ -0,0 +1,125 @@
+import type { Readable } from 'node:stream'
+
+import { StringDecoder } from 'node:string_decoder'
+
+import { DatabricksSqlError } from './errors.js'
+
+/** One CSV record; unquoted empty fields are null, quoted empty fields are '' */
+export type CsvRecord = Array<string | null>
+
+type CsvParser = {
+  push(text: string): CsvRecord[]
+  end(): CsvRecord[]
+}
+
+/**
+ * Parse an RFC 4180 CSV byte stream into records, header row included.
+ * Handles quoted fields with embedded commas, doubled quotes, and line breaks,
+ * CRLF or LF record endings, and a leading UTF-8 BOM.
+ * Input is decoded incrementally, so records are yielded as soon as they complete.
+ */
+export async function* readCsvRecords(stream: Readable): AsyncGenerator<CsvRecord> {
+  const decoder = new StringDecoder('utf8')
+  const parser = createCsvParser()
+  let atStart = true
+
+  for await (const chunk of stream) {
+    let text = typeof chunk === 'string' ? chunk : decoder.write(chunk as Buffer)
+    if (atStart && text) {
+      text = text.replace(/^\uFEFF/, '')
+      atStart = false
+    }
+    yield* parser.push(text)
+  }
+  yield* parser.push(decoder.end())
+  yield* parser.end()
+}
+
+function createCsvParser(): CsvParser {
+  let record: CsvRecord = []
+  let field = ''
+  // Whether the current field started with a quote
+  let quoted = false
+  let inQuotes = false
+  // A quote closed the field; another quote right after it is an escaped quote
+  let quoteClosed = false
+  // The record ended with CR; skip the LF of a CRLF pair
+  let skipLineFeed = false
+  let records: CsvRecord[] = []
+
+  const endField = () => {
+    record.push(quoted ? field : field === '' ? null : field)
+    field = ''
+    quoted = false
+    quoteClosed = false
+  }
+  const endRecord = () => {
+    endField()
+    records.push(record)
+    record = []
+  }
+  const take = () => {
+    const completed = records
+    records = []
+    return completed
+  }
+
+  return {
+    push(text) {
+      for (const char of text) {
+        if (skipLineFeed) {
+          skipLineFeed = false
+          if (char === '\n')
+            continue
+        }
+
+        if (inQuotes) {
+          if (char === '"') {
+            inQuotes = false
+            quoteClosed = true
+          } else {
+            field += char
+          }
+          continue
+        }
+
+        if (char === '"') {
+          if (quoteClosed) {
+            field += '"'
+            inQuotes = true
+            quoteClosed = false
+          } else if (field === '' && !quoted) {
+            inQuotes = true
+            quoted = true
+          } else {
+            // Stray quote inside an unquoted field; keep it literally.
+            field += char
+          }
+          continue
+        }
+
+        quoteClosed = false
+        if (char === ',') {
+          endField()
+        } else if (char === '\n') {
+          endRecord()
+        } else if (char === '\r') {
+          endRecord()
+          skipLineFeed = true
+        } else {
+          field += char
+        }
+      }
+      return take()
+    },
+
+    end() {
+      if (inQuotes)
+        throw new DatabricksSqlError('CSV input ended inside a quoted field', 'INVALID_FORMAT')
+      // A trailing line break does not start another record.
+      if (field !== '' || quoted || record.length > 0)
+        endRecord()
+      return take()
+    },
+  }
+}
@@ -3,8 +3,11 @@ import type {
   ExecuteStatementRequest,
   StatementResult,
   GetChunkResponse,
+  ListQueriesRequest,
+  ListQueriesResponse,
   QueryInfo,
 } from './types.js'
+import type { RequestOptions } from './http.js'
 import { httpRequest } from './http.js'
 
 // Base path for Databricks SQL Statement Execution API.
@@ -19,13 +22,14 @@ const HISTORY_BASE_PATH = '/api/2.0/sql/history/queries'
 export async function postStatement(
   auth: AuthInfo,
   request: ExecuteStatementRequest,
-  signal?: AbortSignal
+  options: RequestOptions = {}
 ): Promise<StatementResult> {
   return httpRequest<StatementResult>(auth, {
+    operation: 'postStatement',
     method: 'POST',
     path: BASE_PATH,
     body: request,
-    ...(signal ? { signal } : {}),
+    ...options,
   })
 }
 
@@ -36,12 +40,16 @@ export async function postStatement(
 export async function getStatement(
   auth: AuthInfo,
   statementId: string,
-  signal?: AbortSignal
+  options: RequestOptions = {}
 ): Promise<StatementResult> {
   return httpRequest<StatementResult>(auth, {
+    operation: 'getStatement',
     method: 'GET',
     path: `${BASE_PATH}/${statementId}`,
-    ...(signal ? { signal } : {}),
+    spanAttributes: {
+      'databricks.statement_id': statementId,
+    },
+    ...options,
   })
 }
 
@@ -52,12 +60,16 @@ export async function getStatement(
 export async function cancelStatement(
   auth: AuthInfo,
   statementId: string,
-  signal?: AbortSignal
+  options: RequestOptions = {}
 ): Promise<void> {
   await httpRequest<unknown>(auth, {
+    operation: 'cancelStatement',
     method: 'POST',
     path: `${BASE_PATH}/${statementId}/cancel`,
-    ...(signal ? { signal } : {}),
+    spanAttributes: {
+      'databricks.statement_id': statementId,
+    },
+    ...options,
   })
 }
 
@@ -69,12 +81,17 @@ export async function getChunk(
   auth: AuthInfo,
   statementId: string,
   chunkIndex: number,
-  signal?: AbortSignal
+  options: RequestOptions = {}
 ): Promise<GetChunkResponse> {
   return httpRequest<GetChunkResponse>(auth, {
+    operation: 'getChunk',
     method: 'GET',
     path: `${BASE_PATH}/${statementId}/result/chunks/${chunkIndex}`,
-    ...(signal ? { signal } : {}),
+    spanAttributes: {
+      'databricks.statement_id': statementId,
+      'databricks.chunk_index': chunkIndex,
+    },
+    ...options,
   })
 }
 
@@ -85,11 +102,51 @@ export async function getChunk(
 export async function getQueryMetrics(
   auth: AuthInfo,
   queryId: string,
-  signal?: AbortSignal
+  options: RequestOptions = {}
 ): Promise<QueryInfo> {
   return httpRequest<QueryInfo>(auth, {
+    operation: 'getQueryMetrics',
     method: 'GET',
     path: `${HISTORY_BASE_PATH}/${queryId}?include_metrics=true`,
-    ...(signal ? { signal } : {}),
+    spanAttributes: {
+      'databricks.query_id': queryId,
+    },
+    ...options,
   })
 }
+
+/**
+ * List a page of query history
+ * GET /api/2.0/sql/history/queries
+ */
+export async function listQueries(
+  auth: AuthInfo,
+  request: ListQueriesRequest,
+  options: RequestOptions = {}
+): Promise<ListQueriesResponse> {
+  const query = toQueryString(request)
+  return httpRequest<ListQueriesResponse>(auth, {
+    operation: 'listQueries',
+    method: 'GET',
+    path: query ? `${HISTORY_BASE_PATH}?${query}` : HISTORY_BASE_PATH,
+    ...options,
+  })
+}
+
+// Flatten nested request fields into dotted query parameters, repeating keys for arrays
+// (e.g. filter_by.statuses=FAILED&filter_by.statuses=FINISHED).
+function toQueryString(request: ListQueriesRequest): string {
+  const params = new URLSearchParams()
+  const append = (key: string, value: unknown): void => {
+    if (value === undefined)
+      return
+    if (Array.isArray(value))
+      value.forEach((item) => append(key, item))
+    else if (typeof value === 'object' && value !== null)
+      Object.entries(value).forEach(([child, childValue]) => append(`${key}.${child}`, childValue))
+    else
+      params.append(key, String(value))
+  }
+  Object.entries(request).forEach(([key, value]) => append(key, value))
+  return params.toString()
+}
@@ -1,3 +1,5 @@
+import type { ScriptStatementResult } from './types.js'
+
 /** Base error for Databricks SQL operations */
 export class DatabricksSqlError extends Error {
   readonly code: string
@@ -20,6 +22,23 @@ export class StatementCancelledError extends DatabricksSqlError {
   }
 }
 
+/** Error when a statement exceeds ExecuteStatementOptions.timeoutMs */
+export class StatementTimeoutError extends DatabricksSqlError {
+  readonly elapsedMs: number
+
+  constructor(statementId: string | undefined, elapsedMs: number) {
+    super(
+      statementId
+        ? `Statement ${statementId} timed out after ${elapsedMs}ms`
+        : `Statement timed out after ${elapsedMs}ms before it was submitted`,
+      'TIMEOUT',
+      statementId
+    )
+    this.name = 'StatementTimeoutError'
+    this.elapsedMs = elapsedMs
+  }
+}
+
 /** Error when operation is aborted via AbortSignal */
 export class AbortError extends DatabricksSqlError {
   constructor(message: string = 'Operation was aborted') {
@@ -43,8 +62,8 @@ export class HttpError extends DatabricksSqlError {
 
 /** Authentication error (401) */
 export class AuthenticationError extends HttpError {
-  constructor() {
-    super(401, 'Unauthorized', 'Authentication failed. Check your token.')
+  constructor(message: string = 'Authentication failed. Check your token.') {
+    super(401, 'Unauthorized', message)
     this.name = 'AuthenticationError'
   }
 }
@@ -59,3 +78,53 @@ export class RateLimitError extends HttpError {
     this.retryAfter = retryAfter
   }
 }
+
+/** Invalid or incomplete connection configuration */
+export class ConfigurationError extends DatabricksSqlError {
+  constructor(message: string) {
+    super(message, 'INVALID_CONFIG')
+    this.name = 'ConfigurationError'
+  }
+}
+
+/** Parameter value that cannot be sent to the server */
+export class InvalidParameterError extends DatabricksSqlError {
+  constructor(message: string) {
+    super(message, 'INVALID_PARAMETER')
+    this.name = 'InvalidParameterError'
+  }
+}
+
+/** Error when a statement in executeScript fails */
+export class ScriptExecutionError extends DatabricksSqlError {
+  readonly statementIndex: number
+  readonly statement: string
+  readonly results: ScriptStatementResult[]
+  override readonly cause: Error
+
+  constructor(statementIndex: number, statement: string, cause: Error, results: ScriptStatementResult[]) {
+    super(
+      `Statement ${statementIndex + 1} of script failed: ${cause.message}`,
+      cause instanceof DatabricksSqlError ? cause.code : undefined,
+      cause instanceof DatabricksSqlError ? cause.statementId : undefined
+    )
+    this.name = 'ScriptExecutionError'
+    this.statementIndex = statementIndex
+    this.statement = statement
+    this.results = results
+    this.cause = cause
+  }
+}
+
+/** Error when a call waits in the concurrency limiter queue longer than queueTimeoutMs */
+export class QueueTimeoutError extends DatabricksSqlError {
+  readonly warehouseId: string
+  readonly waitedMs: number
+
+  constructor(warehouseId: string, waitedMs: number) {
+    super(`Timed out after ${waitedMs}ms waiting for a free slot on warehouse ${warehouseId}`, 'QUEUE_TIMEOUT')
+    this.name = 'QueueTimeoutError'
+    this.warehouseId = warehouseId
+    this.waitedMs = waitedMs
+  }
+}
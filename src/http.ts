@@ -1,24 +1,62 @@
-import type { AuthInfo } from './types.js'
+import type {
+  ApiOperation,
+  AuthInfo,
+  HttpOptions,
+  HttpRequestContext,
+  RetryPolicy,
+  SignalOptions,
+  SpanAttributes,
+  TraceSpan,
+} from './types.js'
 import {
   HttpError,
   AuthenticationError,
   RateLimitError,
   AbortError,
 } from './errors.js'
-import { buildUrl, delay } from './util.js'
+import { getAccessToken, isRefreshableAuth } from './auth.js'
+import { withSpan } from './tracing.js'
+import { buildUrl, delay, fetchWithOptions } from './util.js'
 
-const MAX_RETRIES = 3
-const INITIAL_RETRY_DELAY_MS = 1000
+type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'shouldRetry'>> & Pick<RetryPolicy, 'shouldRetry'>
+
+const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 4,
+  initialDelayMs: 1000,
+  maxDelayMs: 30_000,
+  backoffMultiplier: 2,
+  jitter: 0.2,
+  retryableStatusCodes: [429, 500, 502, 503, 504],
+  retryableErrorCodes: [
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ETIMEDOUT',
+    'EPIPE',
+    'EAI_AGAIN',
+    'UND_ERR_SOCKET',
+    'UND_ERR_CONNECT_TIMEOUT',
+    'UND_ERR_HEADERS_TIMEOUT',
+  ],
+}
 
 type HttpMethod = 'GET' | 'POST' | 'DELETE'
 
-type HttpRequestOptions = {
+/** Per-call options accepted by the REST wrappers */
+export type RequestOptions = SignalOptions & HttpOptions
+
+type HttpRequestOptions = RequestOptions & {
+  operation: ApiOperation
   method: HttpMethod
   path: string
   body?: unknown
-  signal?: AbortSignal
+  /** Extra attributes for the request span */
+  spanAttributes?: SpanAttributes
 }
 
+type AttemptOutcome<T> =
+  | { ok: true; value: T; status: number }
+  | { ok: false; error: Error; retryAfterMs?: number }
+
 /**
  * HTTP request wrapper with retry and error handling
  */
@@ -26,100 +64,209 @@ export async function httpRequest<T>(
   auth: AuthInfo,
   options: HttpRequestOptions
 ): Promise<T> {
-  const { method, path, body, signal } = options
-  const url = buildUrl(auth.host, path)
+  const url = buildUrl(auth.host, options.path)
+  return withSpan(options.tracer, `databricks.${options.operation}`, {
+    'http.request.method': options.method,
+    'url.full': url,
+    ...options.spanAttributes,
+  }, (span) => requestWithRetry<T>(auth, url, options, span))
+}
 
-  let lastError: Error | undefined
-  let retryDelay = INITIAL_RETRY_DELAY_MS
+async function requestWithRetry<T>(
+  auth: AuthInfo,
+  url: string,
+  options: HttpRequestOptions,
+  span: TraceSpan | undefined
+): Promise<T> {
+  const { operation, method, path, body, signal } = options
+  const policy: ResolvedRetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry }
+
+  let forceRefresh = false
+  let tokenRefreshed = false
 
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+  for (let attempt = 1; ; attempt++) {
     if (signal?.aborted)
       throw new AbortError()
 
-    try {
-      // Build a minimal fetch init, skipping undefined values.
-      const fetchInit = Object.fromEntries(
-        Object.entries({
-          method,
-          headers: {
-            Authorization: `Bearer ${auth.token}`,
-            'Content-Type': 'application/json',
-            Accept: 'application/json',
-          },
-          body: body ? JSON.stringify(body) : undefined,
-          signal,
-        }).filter(([, v]) => v !== undefined)
-      ) as RequestInit
-
-      const response = await fetch(url, fetchInit)
-
-      // Success
-      if (response.ok)
-        return (await response.json()) as T
-
-      // Authentication error (no retry)
-      if (response.status === 401)
-        throw new AuthenticationError()
-
-      // Rate limit
-      if (response.status === 429) {
-        const retryAfterHeader = response.headers.get('Retry-After')
-        const retryAfter = retryAfterHeader
-          ? parseInt(retryAfterHeader, 10)
-          : undefined
-        const error = new RateLimitError(
-          isNaN(retryAfter as number) ? undefined : retryAfter
-        )
-
-        if (error.retryAfter && attempt < MAX_RETRIES) {
-          await delay(error.retryAfter * 1000, signal)
-          continue
-        }
-
-        throw error
-      }
+    const outcome = await attemptRequest<T>(auth, { operation, method, url, body, attempt }, forceRefresh, options)
+    forceRefresh = false
+    span?.setAttribute('databricks.http.attempts', attempt)
 
-      // Server error (can retry)
-      if (response.status >= 500) {
-        const errorBody = await response.text().catch(() => '')
-        lastError = new HttpError(response.status, response.statusText, errorBody)
-
-        if (attempt < MAX_RETRIES) {
-          // Exponential backoff for transient server errors.
-          await delay(retryDelay, signal)
-          retryDelay *= 2
-          continue
-        }
-      }
+    if (outcome.ok) {
+      span?.setAttribute('http.response.status_code', outcome.status)
+      return outcome.value
+    }
 
-      // Other client errors
-      const errorBody = await response.text().catch(() => '')
-
-      throw new HttpError(response.status, response.statusText, errorBody)
-
-    } catch (err) {
-      // Re-throw known errors
-      if (
-        err instanceof AbortError ||
-        err instanceof AuthenticationError ||
-        err instanceof HttpError
-      )
-        throw err
-
-      // Network error
-      if (err instanceof TypeError && err.message.includes('fetch')) {
-        lastError = err
-        if (attempt < MAX_RETRIES) {
-          // Network errors are retried with backoff.
-          await delay(retryDelay, signal)
-          retryDelay *= 2
-          continue
-        }
-      }
+    const { error } = outcome
+    if (error instanceof HttpError)
+      span?.setAttribute('http.response.status_code', error.status)
 
-      throw err
+    // Authentication error: retry once with a freshly issued token when possible.
+    if (error instanceof AuthenticationError) {
+      if (!tokenRefreshed && isRefreshableAuth(auth)) {
+        tokenRefreshed = true
+        forceRefresh = true
+        // The refresh retry does not consume the retry policy budget.
+        attempt--
+        continue
+      }
+      throw error
     }
+
+    if (attempt >= policy.maxAttempts || !isRetryableError(error, policy))
+      throw error
+
+    // Honor Retry-After when the server provides it; otherwise back off exponentially.
+    const delayMs = outcome.retryAfterMs ?? getBackoffDelay(policy, attempt)
+    if (policy.shouldRetry && !(await policy.shouldRetry({ attempt, error, delayMs, method, path })))
+      throw error
+
+    await delay(delayMs, signal)
+  }
+}
+
+/**
+ * Pick REST options from a public options bag, skipping undefined values.
+ * The signal is passed separately so callers can opt out of it (e.g. for cancel requests).
+ */
+export function pickRequestOptions(
+  options: HttpOptions,
+  signal?: AbortSignal
+): RequestOptions {
+  return {
+    ...signal ? { signal } : {},
+    ...options.retry ? { retry: options.retry } : {},
+    ...options.fetch ? { fetch: options.fetch } : {},
+    ...options.dispatcher ? { dispatcher: options.dispatcher } : {},
+    ...options.hooks ? { hooks: options.hooks } : {},
+    ...options.tracer ? { tracer: options.tracer } : {},
   }
+}
+
+async function attemptRequest<T>(
+  auth: AuthInfo,
+  request: Omit<HttpRequestContext, 'headers'>,
+  forceRefresh: boolean,
+  options: RequestOptions
+): Promise<AttemptOutcome<T>> {
+  const { signal, hooks } = options
+  let token: string
+  try {
+    // Resolve per attempt so cached OAuth tokens are refreshed before expiry.
+    token = await getAccessToken(auth, signal ? { forceRefresh, signal } : { forceRefresh }, options)
+  } catch (err) {
+    // A token endpoint outage is retried like any other network failure.
+    if (isNetworkError(err))
+      return { ok: false, error: err }
+    throw err
+  }
+  const context: HttpRequestContext = {
+    ...request,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+    },
+  }
+  await hooks?.onRequest?.(context)
+
+  // Build a minimal fetch init, skipping undefined values.
+  const fetchInit = Object.fromEntries(
+    Object.entries({
+      method: context.method,
+      headers: context.headers,
+      body: context.body ? JSON.stringify(context.body) : undefined,
+      signal,
+    }).filter(([, v]) => v !== undefined)
+  ) as RequestInit
+
+  const startedAt = performance.now()
+  const outcome = await sendRequest<T>(context.url, fetchInit, options)
+  const durationMs = performance.now() - startedAt
+
+  if (outcome.ok)
+    await hooks?.onResponse?.({ ...context, status: outcome.status, durationMs })
+  else
+    await hooks?.onError?.({
+      ...context,
+      error: outcome.error,
+      ...outcome.error instanceof HttpError ? { status: outcome.error.status } : {},
+      durationMs,
+    })
+
+  return outcome
+}
+
+async function sendRequest<T>(
+  url: string,
+  fetchInit: RequestInit,
+  options: RequestOptions
+): Promise<AttemptOutcome<T>> {
+  let response: Response
+  try {
+    response = await fetchWithOptions(url, fetchInit, options)
+  } catch (err) {
+    // Network errors are candidates for retry; everything else propagates.
+    if (isNetworkError(err))
+      return { ok: false, error: err }
+    throw err
+  }
+
+  // Success
+  if (response.ok)
+    return { ok: true, value: (await response.json()) as T, status: response.status }
+
+  // Authentication error
+  if (response.status === 401)
+    return { ok: false, error: new AuthenticationError() }
+
+  // Rate limit
+  if (response.status === 429) {
+    const retryAfterHeader = response.headers.get('Retry-After')
+    const retryAfter = retryAfterHeader
+      ? parseInt(retryAfterHeader, 10)
+      : undefined
+    const error = new RateLimitError(
+      isNaN(retryAfter as number) ? undefined : retryAfter
+    )
+
+    return error.retryAfter !== undefined
+      ? { ok: false, error, retryAfterMs: error.retryAfter * 1000 }
+      : { ok: false, error }
+  }
+
+  const errorBody = await response.text().catch(() => '')
+  return { ok: false, error: new HttpError(response.status, response.statusText, errorBody) }
+}
+
+function isRetryableError(
+  error: Error,
+  policy: ResolvedRetryPolicy
+): boolean {
+  if (error instanceof HttpError)
+    return policy.retryableStatusCodes.includes(error.status)
+
+  // Network errors without a code (e.g. plain "fetch failed") are treated as transient.
+  const code = getNetworkErrorCode(error)
+  return code === undefined || policy.retryableErrorCodes.includes(code)
+}
+
+function getBackoffDelay(
+  policy: Required<Omit<RetryPolicy, 'shouldRetry'>>,
+  attempt: number
+): number {
+  const exponential = policy.initialDelayMs * policy.backoffMultiplier ** (attempt - 1)
+  const capped = Math.min(exponential, policy.maxDelayMs)
+  // Spread retries from concurrent callers by shaving off up to `jitter` of the delay.
+  return Math.round(capped * (1 - policy.jitter * Math.random()))
+}
+
+function isNetworkError(err: unknown): err is TypeError {
+  return err instanceof TypeError && err.message.includes('fetch')
+}
 
-  throw lastError ?? new Error('Request failed after retries')
+function getNetworkErrorCode(error: Error): string | undefined {
+  const cause = (error as { cause?: { code?: unknown } }).cause
+  const code = cause?.code ?? (error as { code?: unknown }).code
+  return typeof code === 'string' ? code : undefined
 }
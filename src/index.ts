@@ -4,5 +4,24 @@ export type * from './types.js'
 // Errors
 export * from './errors.js'
 
+// Configuration
+export { resolveAuth } from './config.js'
+
+// SQL builder
+export { sql, Sql } from './sql.js'
+export { splitSqlStatements } from './splitSqlStatements.js'
+
+// Warehouse API
+export { getWarehouse, listWarehouses, startWarehouse, stopWarehouse } from './warehouse-api.js'
+
+// Result cache
+export { createMemoryCacheStore } from './cache.js'
+
+// Concurrency limiter
+export { createConcurrencyLimiter } from './limiter.js'
+
 // Core functions
 export * from './api/index.js'
+
+// Client
+export { DatabricksSqlClient } from './client.js'
@@ -0,0 +1,151 @@
+import type {
+  ConcurrencyLimiter,
+  ConcurrencyLimiterOptions,
+  WarehouseQueueStats,
+} from './types.js'
+
+import { AbortError, ConfigurationError, QueueTimeoutError } from './errors.js'
+
+type Waiter = {
+  priority: number
+  enqueuedAt: number
+  start: () => void
+}
+
+type WarehouseQueue = {
+  maxConcurrent: number
+  running: number
+  /** Sorted by priority (highest first), then arrival */
+  waiting: Waiter[]
+  startedCount: number
+  totalWaitMs: number
+  maxWaitMs: number
+}
+
+/**
+ * Limit how many tasks run at once per warehouse.
+ * Tasks beyond the limit wait in a priority queue (FIFO within a priority)
+ * until a slot frees up, the queue timeout passes, or their signal aborts.
+ */
+export function createConcurrencyLimiter(options: ConcurrencyLimiterOptions): ConcurrencyLimiter {
+  validateLimit(options.maxConcurrent)
+  for (const limit of Object.values(options.maxConcurrentByWarehouse ?? {}))
+    validateLimit(limit)
+
+  const queues = new Map<string, WarehouseQueue>()
+
+  const getQueue = (warehouseId: string): WarehouseQueue => {
+    let queue = queues.get(warehouseId)
+    if (!queue) {
+      queue = {
+        maxConcurrent: options.maxConcurrentByWarehouse?.[warehouseId] ?? options.maxConcurrent,
+        running: 0,
+        waiting: [],
+        startedCount: 0,
+        totalWaitMs: 0,
+        maxWaitMs: 0,
+      }
+      queues.set(warehouseId, queue)
+    }
+    return queue
+  }
+
+  const acquire = (queue: WarehouseQueue, waitedMs: number) => {
+    queue.running++
+    queue.startedCount++
+    queue.totalWaitMs += waitedMs
+    queue.maxWaitMs = Math.max(queue.maxWaitMs, waitedMs)
+  }
+
+  const release = (queue: WarehouseQueue) => {
+    queue.running--
+    while (queue.running < queue.maxConcurrent) {
+      const next = queue.waiting.shift()
+      if (!next)
+        return
+      next.start()
+    }
+  }
+
+  const waitForSlot = (
+    warehouseId: string,
+    queue: WarehouseQueue,
+    priority: number,
+    timeoutMs: number | undefined,
+    signal: AbortSignal | undefined
+  ) => new Promise<void>((resolve, reject) => {
+    const enqueuedAt = Date.now()
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const leave = () => {
+      const index = queue.waiting.indexOf(waiter)
+      if (index !== -1)
+        queue.waiting.splice(index, 1)
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      leave()
+      reject(new AbortError('Aborted while waiting in queue'))
+    }
+    const waiter: Waiter = {
+      priority,
+      enqueuedAt,
+      start: () => {
+        leave()
+        acquire(queue, Date.now() - enqueuedAt)
+        resolve()
+      },
+    }
+
+    // Insert after every waiter with the same or higher priority to keep FIFO order.
+    const index = queue.waiting.findIndex((other) => other.priority < priority)
+    queue.waiting.splice(index === -1 ? queue.waiting.length : index, 0, waiter)
+
+    if (timeoutMs !== undefined)
+      timer = setTimeout(() => {
+        leave()
+        reject(new QueueTimeoutError(warehouseId, Date.now() - enqueuedAt))
+      }, timeoutMs)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+  return {
+    async run(warehouseId, task, runOptions = {}) {
+      const { signal, priority = 0 } = runOptions
+      if (signal?.aborted)
+        throw new AbortError('Aborted before queueing')
+
+      const queue = getQueue(warehouseId)
+      if (queue.running < queue.maxConcurrent && queue.waiting.length === 0)
+        acquire(queue, 0)
+      else
+        await waitForSlot(warehouseId, queue, priority, runOptions.queueTimeoutMs ?? options.queueTimeoutMs, signal)
+
+      try {
+        return await task()
+      } finally {
+        release(queue)
+      }
+    },
+
+    getStats() {
+      const now = Date.now()
+      return [...queues].map(([warehouseId, queue]): WarehouseQueueStats => ({
+        warehouseId,
+        maxConcurrent: queue.maxConcurrent,
+        running: queue.running,
+        queued: queue.waiting.length,
+        oldestQueuedMs: queue.waiting.reduce((oldest, waiter) => Math.max(oldest, now - waiter.enqueuedAt), 0),
+        startedCount: queue.startedCount,
+        averageWaitMs: queue.startedCount === 0 ? 0 : queue.totalWaitMs / queue.startedCount,
+        maxWaitMs: queue.maxWaitMs,
+      }))
+    },
+  }
+}
+
+function validateLimit(limit: number): void {
+  if (!Number.isInteger(limit) || limit < 1)
+    throw new ConfigurationError(`Concurrency limit must be a positive integer, got ${limit}`)
+}
@@ -0,0 +1,235 @@
+import type { StatementParameter, StatementParameterType } from './types.js'
+
+import { InvalidParameterError } from './errors.js'
+
+const INTEGER_BITS: Record<string, bigint> = {
+  TINYINT: 8n,
+  SMALLINT: 16n,
+  INT: 32n,
+  BIGINT: 64n,
+  LONG: 64n,
+}
+
+// Spark's DECIMAL without arguments is DECIMAL(10,0).
+const DEFAULT_DECIMAL = { precision: 10, scale: 0 }
+const MAX_DECIMAL_PRECISION = 38
+
+const INTEGER_PATTERN = /^[+-]?\d+$/
+const DECIMAL_PATTERN = /^[+-]?(\d+)(?:\.(\d+))?$/
+const DECIMAL_TYPE_PATTERN = /^DECIMAL\((\d+),\s*(\d+)\)$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIMESTAMP_NTZ_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d{1,9})?)?)?$/
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d{1,9})?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+
+/**
+ * Build a parameter from a JS value, inferring the type unless one is given.
+ *
+ * Inference: string → STRING, boolean → BOOLEAN, safe integer or bigint → BIGINT,
+ * other numbers → DOUBLE, Date → TIMESTAMP, Buffer/Uint8Array → BINARY.
+ * null and undefined become SQL NULL.
+ * @throws {InvalidParameterError} If the value cannot be represented as the type
+ */
+export function toStatementParameter(
+  name: string,
+  value: unknown,
+  type?: StatementParameterType
+): StatementParameter {
+  if (value === null || value === undefined)
+    return type ? { name, type } : { name }
+
+  const resolvedType = type ?? inferParameterType(name, value)
+  return { name, type: resolvedType, value: serializeParameterValue(name, resolvedType, value) }
+}
+
+/**
+ * Validate an explicit parameter and serialize its value the way the server expects.
+ * Untyped parameters are sent as STRING values.
+ * @throws {InvalidParameterError} If the value does not match the declared type
+ */
+export function normalizeStatementParameter(parameter: StatementParameter): StatementParameter {
+  const { name, type, value } = parameter
+  if (!name)
+    throw new InvalidParameterError('Parameter name must be a non-empty string')
+  if (value === undefined)
+    return parameter
+  return { ...parameter, value: serializeParameterValue(name, type ?? 'STRING', value) }
+}
+
+function inferParameterType(name: string, value: unknown): StatementParameterType {
+  switch (typeof value) {
+    case 'string':
+      return 'STRING'
+    case 'boolean':
+      return 'BOOLEAN'
+    case 'bigint':
+      return 'BIGINT'
+    case 'number':
+      if (!Number.isFinite(value))
+        throw new InvalidParameterError(`Parameter "${name}" must be a finite number, got ${value}`)
+      return Number.isSafeInteger(value) ? 'BIGINT' : 'DOUBLE'
+  }
+  if (value instanceof Date)
+    return 'TIMESTAMP'
+  if (value instanceof Uint8Array)
+    return 'BINARY'
+  throw new InvalidParameterError(`Parameter "${name}" has unsupported type ${describeValue(value)}`)
+}
+
+function serializeParameterValue(name: string, type: StatementParameterType, value: unknown): string {
+  const normalizedType = type.toUpperCase()
+  const fail = (expected: string): never => {
+    throw new InvalidParameterError(
+      `Parameter "${name}" of type ${type} expects ${expected}, got ${describeValue(value)}${formatValue(value)}`
+    )
+  }
+
+  if (normalizedType in INTEGER_BITS)
+    return serializeInteger(value, INTEGER_BITS[normalizedType]!) ?? fail('an integer in range')
+
+  if (normalizedType === 'DECIMAL' || normalizedType.startsWith('DECIMAL('))
+    return serializeDecimal(value, parseDecimalType(name, normalizedType))
+      ?? fail('a decimal number that fits the precision and scale')
+
+  switch (normalizedType) {
+    case 'STRING':
+      return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint'
+        ? String(value)
+        : fail('a string')
+    case 'BOOLEAN':
+      if (typeof value === 'boolean')
+        return String(value)
+      return typeof value === 'string' && /^(true|false)$/i.test(value)
+        ? value.toLowerCase()
+        : fail('a boolean')
+    case 'FLOAT':
+    case 'DOUBLE':
+      return serializeFloat(value) ?? fail('a finite number')
+    case 'DATE':
+      return serializeDate(value) ?? fail('a Date or YYYY-MM-DD string')
+    case 'TIMESTAMP':
+      return serializeTimestamp(value, TIMESTAMP_PATTERN, (date) => date.toISOString())
+        ?? fail('a Date or ISO 8601 timestamp string')
+    case 'TIMESTAMP_NTZ':
+      // Dates are sent as their UTC wall-clock time.
+      return serializeTimestamp(value, TIMESTAMP_NTZ_PATTERN, (date) => date.toISOString().slice(0, -1))
+        ?? fail('a Date or ISO 8601 timestamp string without a time zone')
+    case 'BINARY':
+      return serializeBinary(name, value) ?? fail('a Buffer, Uint8Array, or string')
+    default:
+      throw new InvalidParameterError(`Parameter "${name}" has unsupported type ${type}`)
+  }
+}
+
+function serializeInteger(value: unknown, bits: bigint): string | undefined {
+  let integer: bigint
+  if (typeof value === 'bigint')
+    integer = value
+  else if (typeof value === 'number' && Number.isSafeInteger(value))
+    integer = BigInt(value)
+  else if (typeof value === 'string' && INTEGER_PATTERN.test(value))
+    integer = BigInt(value)
+  else
+    return undefined
+
+  const limit = 1n << (bits - 1n)
+  return integer >= -limit && integer < limit ? integer.toString() : undefined
+}
+
+function parseDecimalType(name: string, type: string): { precision: number; scale: number } {
+  if (type === 'DECIMAL')
+    return DEFAULT_DECIMAL
+  const match = type.match(DECIMAL_TYPE_PATTERN)
+  const precision = Number(match?.[1])
+  const scale = Number(match?.[2])
+  if (!match || precision < 1 || precision > MAX_DECIMAL_PRECISION || scale > precision)
+    throw new InvalidParameterError(`Parameter "${name}" has invalid decimal type ${type}`)
+  return { precision, scale }
+}
+
+function serializeDecimal(
+  value: unknown,
+  { precision, scale }: { precision: number; scale: number }
+): string | undefined {
+  const text = typeof value === 'bigint' || (typeof value === 'number' && Number.isFinite(value))
+    ? String(value)
+    : typeof value === 'string' ? value : undefined
+  // Rejects exponent notation, which the server would not parse as a DECIMAL literal.
+  const match = text?.match(DECIMAL_PATTERN)
+  if (!text || !match)
+    return undefined
+
+  const integerDigits = match[1]!.replace(/^0+/, '').length
+  const fractionDigits = match[2]?.length ?? 0
+  return integerDigits <= precision - scale && fractionDigits <= scale ? text : undefined
+}
+
+function serializeFloat(value: unknown): string | undefined {
+  if (typeof value === 'number')
+    return Number.isFinite(value) ? String(value) : undefined
+  if (typeof value === 'bigint')
+    return String(value)
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value)))
+    return value
+  return undefined
+}
+
+function serializeDate(value: unknown): string | undefined {
+  if (value instanceof Date)
+    return isValidDate(value) ? value.toISOString().slice(0, 10) : undefined
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value))
+    return undefined
+  // Round-trip to reject impossible dates such as 2025-02-30.
+  const parsed = new Date(`${value}T00:00:00Z`)
+  return isValidDate(parsed) && parsed.toISOString().startsWith(value) ? value : undefined
+}
+
+function serializeTimestamp(
+  value: unknown,
+  pattern: RegExp,
+  formatDate: (date: Date) => string
+): string | undefined {
+  if (value instanceof Date)
+    return isValidDate(value) ? formatDate(value) : undefined
+  if (typeof value !== 'string' || !pattern.test(value))
+    return undefined
+  return isValidDate(new Date(value.replace(' ', 'T'))) ? value : undefined
+}
+
+/**
+ * BINARY values travel as strings that the server encodes as UTF-8,
+ * so only byte sequences that survive a UTF-8 round trip are accepted.
+ */
+function serializeBinary(name: string, value: unknown): string | undefined {
+  if (typeof value === 'string')
+    return value
+  if (!(value instanceof Uint8Array))
+    return undefined
+
+  const bytes = Buffer.from(value.buffer, value.byteOffset, value.byteLength)
+  const text = bytes.toString('utf8')
+  if (!Buffer.from(text, 'utf8').equals(bytes))
+    throw new InvalidParameterError(
+      `Parameter "${name}" of type BINARY is not valid UTF-8 and cannot be sent without loss`
+    )
+  return text
+}
+
+function isValidDate(date: Date): boolean {
+  return !Number.isNaN(date.getTime())
+}
+
+function describeValue(value: unknown): string {
+  if (value === null)
+    return 'null'
+  if (typeof value !== 'object')
+    return typeof value
+  return value.constructor?.name ?? 'object'
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string')
+    return ` ${JSON.stringify(value)}`
+  if (typeof value === 'number' || typeof value === 'bigint' || typeof value === 'boolean')
+    return ` ${String(value)}`
+  return ''
+}
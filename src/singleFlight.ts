@@ -0,0 +1,81 @@
+import { AbortError } from './errors.js'
+
+type Flight<T, S> = {
+  controller: AbortController
+  subscribers: Set<S>
+  promise: Promise<T>
+}
+
+/** Shares one run of an async task between concurrent callers with the same key */
+export type SingleFlight<T, S> = {
+  /**
+   * Join the in-flight run for `key`, or start one with `start`.
+   * `subscriber` stays visible to the run until this caller settles or aborts.
+   * Aborting `signal` only detaches this caller; the run's own signal is aborted
+   * once every subscriber has left.
+   */
+  run(
+    key: string,
+    subscriber: S,
+    signal: AbortSignal | undefined,
+    start: (signal: AbortSignal, subscribers: ReadonlySet<S>) => Promise<T>
+  ): Promise<T>
+}
+
+export function createSingleFlight<T, S>(): SingleFlight<T, S> {
+  const flights = new Map<string, Flight<T, S>>()
+
+  const detach = (key: string, flight: Flight<T, S>, subscriber: S) => {
+    flight.subscribers.delete(subscriber)
+    if (flight.subscribers.size > 0)
+      return
+    // Nobody is waiting anymore: stop sharing it and let the run clean up.
+    if (flights.get(key) === flight)
+      flights.delete(key)
+    flight.controller.abort()
+  }
+
+  return {
+    async run(key, subscriber, signal, start) {
+      if (signal?.aborted)
+        throw new AbortError('Aborted before joining shared run')
+
+      let flight = flights.get(key)
+      if (!flight) {
+        const controller = new AbortController()
+        const subscribers = new Set<S>()
+        const created: Flight<T, S> = {
+          controller,
+          subscribers,
+          promise: Promise.resolve()
+            .then(() => start(controller.signal, subscribers))
+            .finally(() => {
+              if (flights.get(key) === created)
+                flights.delete(key)
+            }),
+        }
+        // Every subscriber may have left before the run settles.
+        created.promise.catch(() => { })
+        flights.set(key, created)
+        flight = created
+      }
+      const joined = flight
+      joined.subscribers.add(subscriber)
+
+      return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+          detach(key, joined, subscriber)
+          reject(new AbortError('Aborted while waiting for shared run'))
+        }
+        signal?.addEventListener('abort', onAbort, { once: true })
+        joined.promise.then(
+          (value) => resolve(value),
+          (err: unknown) => reject(err)
+        ).finally(() => {
+          signal?.removeEventListener('abort', onAbort)
+          joined.subscribers.delete(subscriber)
+        })
+      })
+    },
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Split a SQL script into individual statements on top-level semicolons.
+ *
+ * Semicolons inside single/double-quoted strings, backtick identifiers,
+ * `--` and `/* *\/` comments (nested), and `$$` or `$tag$` bodies are ignored.
+ * Statements are trimmed; empty and comment-only statements are dropped.
+ */
+export function splitSqlStatements(sqlText: string): string[] {
+  const statements: string[] = []
+  let start = 0
+  let hasCode = false
+  let i = 0
+
+  const pushStatement = (end: number) => {
+    const statement = sqlText.slice(start, end).trim()
+    if (hasCode && statement)
+      statements.push(statement)
+    start = end + 1
+    hasCode = false
+  }
+
+  while (i < sqlText.length) {
+    const char = sqlText[i]!
+    const next = sqlText[i + 1]
+
+    if (char === '-' && next === '-') {
+      i = skipLineComment(sqlText, i)
+      continue
+    }
+    if (char === '/' && next === '*') {
+      i = skipBlockComment(sqlText, i)
+      continue
+    }
+
+    if (char === ';') {
+      pushStatement(i)
+      i++
+      continue
+    }
+
+    if (!/\s/.test(char))
+      hasCode = true
+
+    if (char === '\'' || char === '"' || char === '`') {
+      i = skipQuoted(sqlText, i, char)
+      continue
+    }
+    if (char === '$') {
+      const end = skipDollarQuoted(sqlText, i)
+      if (end !== undefined) {
+        i = end
+        continue
+      }
+    }
+    i++
+  }
+
+  pushStatement(sqlText.length)
+  return statements
+}
+
+export function skipLineComment(text: string, index: number): number {
+  const end = text.indexOf('\n', index)
+  return end === -1 ? text.length : end + 1
+}
+
+// Databricks SQL allows nested bracketed comments.
+export function skipBlockComment(text: string, index: number): number {
+  let depth = 0
+  let i = index
+  while (i < text.length) {
+    if (text.startsWith('/*', i)) {
+      depth++
+      i += 2
+    } else if (text.startsWith('*/', i)) {
+      depth--
+      i += 2
+      if (depth === 0)
+        return i
+    } else {
+      i++
+    }
+  }
+  return text.length
+}
+
+// Handles doubled quotes ('it''s') and backslash escapes ('it\'s'); backticks only double.
+function skipQuoted(text: string, index: number, quote: string): number {
+  let i = index + 1
+  while (i < text.length) {
+    const char = text[i]
+    if (char === '\\' && quote !== '`') {
+      i += 2
+      continue
+    }
+    if (char === quote) {
+      if (text[i + 1] === quote) {
+        i += 2
+        continue
+      }
+      return i + 1
+    }
+    i++
+  }
+  return text.length
+}
+
+/** Skip a `$$...$$` or `$tag$...$tag$` body; returns undefined when `$` does not open one. */
+function skipDollarQuoted(text: string, index: number): number | undefined {
+  const tag = text.slice(index).match(/^\$[A-Za-z_]*\$/)?.[0]
+  if (!tag)
+    return undefined
+  const end = text.indexOf(tag, index + tag.length)
+  return end === -1 ? text.length : end + tag.length
+}
@@ -0,0 +1,127 @@
+import type { StatementInput, StatementParameter, StatementParameterType, SqlStatement } from './types.js'
+
+import { InvalidParameterError } from './errors.js'
+import { normalizeStatementParameter, toStatementParameter } from './parameters.js'
+
+const PARAMETER_PREFIX = 'p'
+
+/** A literal SQL piece or a value bound as a parameter */
+type SqlSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; value: unknown; type?: StatementParameterType }
+
+/**
+ * SQL fragment built by the sql tag.
+ * Values become :p0, :p1, ... markers numbered across nested fragments.
+ */
+export class Sql implements SqlStatement {
+  readonly text: string
+  readonly parameters: readonly StatementParameter[]
+  private readonly segments: readonly SqlSegment[]
+
+  constructor(segments: readonly SqlSegment[]) {
+    this.segments = segments
+
+    let text = ''
+    const parameters: StatementParameter[] = []
+    for (const segment of segments) {
+      if (segment.kind === 'text') {
+        text += segment.text
+        continue
+      }
+      const name = `${PARAMETER_PREFIX}${parameters.length}`
+      parameters.push(toStatementParameter(name, segment.value, segment.type))
+      text += `:${name}`
+    }
+    this.text = text
+    this.parameters = parameters
+  }
+
+  /** @internal Segments used when this fragment is embedded in another */
+  toSegments(): readonly SqlSegment[] {
+    return this.segments
+  }
+}
+
+/**
+ * Tagged template that binds interpolated values as named parameters.
+ *
+ * - `Sql` fragments (nested `sql` templates) are inlined.
+ * - Arrays expand to comma-separated markers for `IN (...)`.
+ * - Use `sql.identifier()` for table or column names.
+ * @throws {InvalidParameterError} If a value cannot be bound
+ */
+export function sql(strings: TemplateStringsArray, ...values: unknown[]): Sql {
+  const segments: SqlSegment[] = []
+  strings.forEach((text, index) => {
+    segments.push({ kind: 'text', text })
+    if (index < values.length)
+      segments.push(...toSegments(values[index]))
+  })
+  return new Sql(segments)
+}
+
+/**
+ * Quote an identifier with backticks; multiple parts are joined with dots.
+ * @example sql.identifier('main', 'sales', 'orders') // `main`.`sales`.`orders`
+ */
+sql.identifier = function identifier(...parts: string[]): Sql {
+  if (parts.length === 0 || parts.some((part) => part.length === 0))
+    throw new InvalidParameterError('Identifiers must be non-empty strings')
+  const text = parts.map((part) => `\`${part.replaceAll('`', '``')}\``).join('.')
+  return new Sql([{ kind: 'text', text }])
+}
+
+/**
+ * Bind a value with an explicit parameter type instead of the inferred one.
+ * @example sql`SELECT * FROM t WHERE amount = ${sql.param('12.50', 'DECIMAL(10,2)')}`
+ */
+sql.param = function param(value: unknown, type: StatementParameterType): Sql {
+  return new Sql([{ kind: 'value', value, type }])
+}
+
+/**
+ * Join values or fragments with a literal separator.
+ * @example sql`SELECT ${sql.join(columns.map((c) => sql.identifier(c)))} FROM t`
+ */
+sql.join = function join(values: readonly unknown[], separator: string = ', '): Sql {
+  const segments: SqlSegment[] = []
+  values.forEach((value, index) => {
+    if (index > 0)
+      segments.push({ kind: 'text', text: separator })
+    segments.push(...toSegments(value))
+  })
+  return new Sql(segments)
+}
+
+function toSegments(value: unknown): readonly SqlSegment[] {
+  if (value instanceof Sql)
+    return value.toSegments()
+
+  if (Array.isArray(value)) {
+    // An empty IN () list is a syntax error on the server; fail early instead.
+    if (value.length === 0)
+      throw new InvalidParameterError('Cannot bind an empty array; IN () requires at least one value')
+    return sql.join(value).toSegments()
+  }
+
+  return [{ kind: 'value', value }]
+}
+
+/**
+ * Split a statement input into SQL text and validated parameters.
+ * Parameters from the input come before any given explicitly in options.
+ * @throws {InvalidParameterError} If a parameter value does not match its type
+ */
+export function resolveStatementInput(
+  input: StatementInput,
+  parameters?: StatementParameter[]
+): { text: string; parameters: StatementParameter[] | undefined } {
+  const merged = typeof input === 'string'
+    ? parameters
+    : [...input.parameters, ...parameters ?? []]
+  return {
+    text: typeof input === 'string' ? input : input.text,
+    parameters: merged?.length ? merged.map(normalizeStatementParameter) : undefined,
+  }
+}
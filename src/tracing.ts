@@ -0,0 +1,31 @@
+import type { SpanAttributes, TraceSpan, Tracer } from './types.js'
+
+// OpenTelemetry SpanStatusCode.ERROR
+const SPAN_STATUS_ERROR = 2
+
+/**
+ * Run `fn` inside an active span when a tracer is configured.
+ * Failures are recorded on the span and re-thrown; the span always ends.
+ */
+export async function withSpan<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: TraceSpan | undefined) => Promise<T>
+): Promise<T> {
+  if (!tracer)
+    return fn(undefined)
+
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span)
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err))
+      span.recordException(error)
+      span.setStatus({ code: SPAN_STATUS_ERROR, message: error.message })
+      throw err
+    } finally {
+      span.end()
+    }
+  })
+}
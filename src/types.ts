@@ -1,15 +1,64 @@
 import type { Readable } from 'node:stream'
 
-/** Authentication information for Databricks API */
-export type AuthInfo = {
-  /** Databricks Personal Access Token */
-  token: string
+/** Connection target shared by all authentication methods */
+export type ConnectionInfo = {
   /** Databricks workspace host (e.g., ...cloud.databricks.com) */
   host: string
   /** SQL warehouse HTTP path (e.g., /sql/1.0/warehouses/abc123) */
   httpPath: string
 }
 
+/** Personal Access Token authentication */
+export type TokenAuthInfo = ConnectionInfo & {
+  /** Databricks Personal Access Token */
+  token: string
+}
+
+/**
+ * OAuth machine-to-machine (service principal) authentication.
+ * Access tokens are issued by the workspace `/oidc/v1/token` endpoint,
+ * cached, and refreshed before expiry.
+ */
+export type OAuthM2MAuthInfo = ConnectionInfo & {
+  /** Service principal application (client) ID */
+  clientId: string
+  /** Service principal OAuth secret */
+  clientSecret: string
+  /** OAuth scope (default: all-apis) */
+  scope?: string
+}
+
+/** Options passed to a credentials provider */
+export type GetTokenOptions = {
+  /** True when the previous token was rejected and a new one must be issued */
+  forceRefresh: boolean
+  /** Abort signal of the request that needs the token */
+  signal?: AbortSignal
+}
+
+/**
+ * Credentials provider authentication.
+ * `getToken` is called before every request; it is called again with
+ * `forceRefresh: true` when the API rejects the token with 401.
+ */
+export type CredentialsProviderAuthInfo = ConnectionInfo & {
+  /** Return a bearer token (e.g., from Vault, Azure AD, or a token broker) */
+  getToken: (options: GetTokenOptions) => Promise<string>
+}
+
+/** Authentication information for Databricks API */
+export type AuthInfo = TokenAuthInfo | OAuthM2MAuthInfo | CredentialsProviderAuthInfo
+
+/** Options for resolveAuth */
+export type ResolveAuthOptions = {
+  /** Profile name in the config file (default: DATABRICKS_CONFIG_PROFILE or DEFAULT) */
+  profile?: string
+  /** Config file path (default: DATABRICKS_CONFIG_FILE or ~/.databrickscfg) */
+  configFile?: string
+  /** Environment variables to read (default: process.env) */
+  env?: Record<string, string | undefined>
+}
+
 /** Statement execution states */
 export type StatementState =
   | 'PENDING'
@@ -107,6 +156,83 @@ export type QueryInfo = {
   statement_type?: string
 }
 
+/** Query statuses reported by Query History API */
+export type QueryStatus =
+  | 'QUEUED'
+  | 'RUNNING'
+  | 'CANCELED'
+  | 'FAILED'
+  | 'FINISHED'
+
+/** Filters for listing query history */
+export type QueryFilter = {
+  /** Query start time range in epoch milliseconds */
+  query_start_time_range?: {
+    start_time_ms?: number
+    end_time_ms?: number
+  }
+  statuses?: QueryStatus[]
+  user_ids?: number[]
+  warehouse_ids?: string[]
+  statement_ids?: string[]
+}
+
+/**
+ * Page of query history results
+ * @see https://docs.databricks.com/api/workspace/queryhistory/list
+ */
+export type ListQueriesResponse = {
+  res?: QueryInfo[]
+  next_page_token?: string
+  has_next_page?: boolean
+}
+
+/** Parameters for a single Query History API page request */
+export type ListQueriesRequest = {
+  filter_by?: QueryFilter
+  include_metrics?: boolean
+  max_results?: number
+  page_token?: string
+}
+
+/** SQL warehouse states */
+export type WarehouseState =
+  | 'STARTING'
+  | 'RUNNING'
+  | 'STOPPING'
+  | 'STOPPED'
+  | 'DELETING'
+  | 'DELETED'
+
+/**
+ * SQL warehouse info from Warehouses API
+ * @see https://docs.databricks.com/api/workspace/warehouses/get
+ */
+export type WarehouseInfo = {
+  id: string
+  name: string
+  state: WarehouseState
+  cluster_size?: string
+  min_num_clusters?: number
+  max_num_clusters?: number
+  num_clusters?: number
+  num_active_sessions?: number
+  auto_stop_mins?: number
+  warehouse_type?: 'CLASSIC' | 'PRO' | 'TYPE_UNSPECIFIED'
+  enable_serverless_compute?: boolean
+  creator_name?: string
+  health?: {
+    status?: 'HEALTHY' | 'DEGRADED' | 'FAILED' | 'STATUS_UNSPECIFIED'
+    summary?: string
+    message?: string
+  }
+}
+
+/** Response from listing SQL warehouses */
+export type ListWarehousesResponse = {
+  warehouses?: WarehouseInfo[]
+}
+
 /** Column schema information */
 export type ColumnInfo = {
   name: string
@@ -175,18 +301,53 @@ export type StatementResult = {
   result?: ResultData
 }
 
-/** Statement parameter */
+/** Decimal parameter type with precision and scale, e.g. DECIMAL(10,2) */
+export type DecimalParameterType = `DECIMAL(${number},${number})` | `DECIMAL(${number}, ${number})`
+
+/**
+ * Databricks SQL parameter types
+ * @see https://docs.databricks.com/api/workspace/statementexecution/executestatement
+ */
+export type StatementParameterType =
+  | 'STRING'
+  | 'BOOLEAN'
+  | 'TINYINT'
+  | 'SMALLINT'
+  | 'INT'
+  | 'BIGINT'
+  | 'LONG'
+  | 'FLOAT'
+  | 'DOUBLE'
+  | 'DECIMAL'
+  | DecimalParameterType
+  | 'DATE'
+  | 'TIMESTAMP'
+  | 'TIMESTAMP_NTZ'
+  | 'BINARY'
+
+/** Statement parameter (omit value for NULL; the type defaults to STRING on the server) */
 export type StatementParameter = {
   name: string
-  type?: 'STRING' | 'LONG' | 'DOUBLE' | 'BOOLEAN'
+  type?: StatementParameterType
   value?: string | number | boolean
 }
 
+/** SQL text with named parameters (e.g. built by the sql tag) */
+export type SqlStatement = {
+  /** SQL text with :name parameter markers */
+  readonly text: string
+  /** Parameters referenced by the markers */
+  readonly parameters: readonly StatementParameter[]
+}
+
+/** Statement accepted by executeStatement and friends */
+export type StatementInput = string | SqlStatement
+
 /**
  * Options for executeStatement
  * @see https://docs.databricks.com/api/workspace/statementexecution/executestatement
  */
-export type ExecuteStatementOptions = {
+export type ExecuteStatementOptions = HttpOptions & {
   /** Progress callback (called on each poll) */
   onProgress?: (result: StatementResult, metrics?: QueryMetrics) => void
   /** Optional logger for lifecycle events */
@@ -215,6 +376,190 @@ export type ExecuteStatementOptions = {
   wait_timeout?: string
   /** Warehouse ID (can be extracted from httpPath) */
   warehouse_id?: string
+  /** Client-side polling strategy used after the server wait times out */
+  polling?: PollingStrategy
+  /** Overall time limit in milliseconds; the statement is cancelled when exceeded */
+  timeoutMs?: number
+  /** Start the warehouse and wait until it is RUNNING before submitting (default: false) */
+  ensureWarehouseRunning?: boolean
+  /** Warehouse status callback while waiting for startup */
+  onWarehouseProgress?: (warehouse: WarehouseInfo) => void
+  /** Serve repeated statements from a result cache */
+  cache?: ResultCacheOptions
+  /** Skip the cache lookup for this call; the fresh result is still stored */
+  bypassCache?: boolean
+  /**
+   * Share one statement between identical concurrent calls using the same auth object.
+   * The first caller's options drive execution; each caller keeps its own signal and
+   * timeout, and the statement is cancelled only once every caller has aborted.
+   */
+  dedupe?: boolean
+}
+
+/** Storage backend for cached statement results */
+export type ResultCacheStore = {
+  get(key: string): StatementResult | undefined | Promise<StatementResult | undefined>
+  /** Store a result; the store must not return it after ttlMs */
+  set(key: string, value: StatementResult, ttlMs: number): void | Promise<void>
+  delete(key: string): void | Promise<void>
+}
+
+/** Result cache configuration */
+export type ResultCacheOptions = {
+  /** Where results are kept (e.g. createMemoryCacheStore()) */
+  store: ResultCacheStore
+  /** Time to live in milliseconds (default: 60000); shortened to external link expiration */
+  ttlMs?: number
+  /**
+   * Identity for credentials-provider auth, whose callers cannot be told apart otherwise.
+   * Without it, each provider function gets its own entries. Also partitions token and OAuth keys.
+   */
+  namespace?: string
+}
+
+/** Options for createMemoryCacheStore */
+export type MemoryCacheStoreOptions = {
+  /** Maximum number of cached results before LRU eviction (default: 100) */
+  maxEntries?: number
+}
+
+/** Options for executeScript (applied to every statement) */
+export type ExecuteScriptOptions = Omit<ExecuteStatementOptions, 'parameters' | 'cache' | 'bypassCache' | 'dedupe'> & {
+  /** Keep running after a failed statement instead of throwing (default: false) */
+  continueOnError?: boolean
+}
+
+/** Outcome of a single statement in a script */
+export type ScriptStatementResult = {
+  /** Zero-based position in the script */
+  index: number
+  /** Statement text */
+  statement: string
+  /** Result when the statement succeeded */
+  result?: StatementResult
+  /** Error when the statement failed (only with continueOnError) */
+  error?: Error
+  /** Wall-clock execution time in milliseconds */
+  durationMs: number
+}
+
+/** Result of executeScript */
+export type ScriptResult = {
+  /** Per-statement outcomes in script order */
+  statements: ScriptStatementResult[]
+  /** Number of statements that failed */
+  failedCount: number
+  /** Total execution time in milliseconds */
+  durationMs: number
+}
+
+/** Options for listQueryHistory */
+export type ListQueryHistoryOptions = SignalOptions & HttpOptions & {
+  /** Time range, user, warehouse, status, and statement filters */
+  filter_by?: QueryFilter
+  /** Include QueryMetrics for each query (default: false) */
+  include_metrics?: boolean
+  /** Page size per request (API maximum: 1000) */
+  max_results?: number
+  /** Optional logger for lifecycle events */
+  logger?: Logger
+}
+
+/** Options for ensureWarehouseRunning */
+export type EnsureWarehouseRunningOptions = SignalOptions & HttpOptions & {
+  /** Optional logger for lifecycle events */
+  logger?: Logger
+  /** Warehouse status callback while waiting for startup */
+  onWarehouseProgress?: (warehouse: WarehouseInfo) => void
+}
+
+/** Options for submitStatement */
+export type SubmitStatementOptions = Omit<
+  ExecuteStatementOptions,
+  'onProgress' | 'enableMetrics' | 'timeoutMs' | 'cache' | 'bypassCache' | 'dedupe'
+>
+
+/** Options for attachStatement */
+export type AttachStatementOptions = HttpOptions & WaitStatementOptions & {
+  /** Optional logger for lifecycle events */
+  logger?: Logger
+}
+
+/** Options for watchStatement */
+export type WatchStatementOptions = SignalOptions & HttpOptions & {
+  /** Fetch query metrics on every poll and emit an event each time (default: false) */
+  enableMetrics?: boolean
+  /** Polling strategy between status checks */
+  polling?: PollingStrategy
+  /** Optional logger for lifecycle events */
+  logger?: Logger
+}
+
+/** Status event yielded by watchStatement */
+export type StatementStatusEvent = {
+  /** Statement ID */
+  statementId: string
+  /** Current state */
+  state: StatementState
+  /** State reported by the previous event (undefined for the first event) */
+  previousState: StatementState | undefined
+  /** Full status response */
+  result: StatementResult
+  /** Query metrics snapshot (only when enableMetrics is true) */
+  metrics?: QueryMetrics
+  /** Milliseconds since watching started */
+  elapsedMs: number
+  /** Milliseconds since the previous event */
+  deltaMs: number
+}
+
+/** Options for StatementHandle.wait */
+export type WaitStatementOptions = SignalOptions & {
+  /** Progress callback (called on each poll) */
+  onProgress?: (result: StatementResult, metrics?: QueryMetrics) => void
+  /** Enable query metrics fetching during polling (default: false) */
+  enableMetrics?: boolean
+  /** Polling strategy (overrides the one given at submission) */
+  polling?: PollingStrategy
+}
+
+/** Handle to a submitted statement that has not necessarily finished */
+export type StatementHandle = {
+  /** Statement ID, safe to persist and resume later */
+  readonly statementId: string
+  /** Fetch the current status without waiting */
+  status(options?: SignalOptions): Promise<StatementResult>
+  /**
+   * Poll until a terminal state. Aborting stops waiting but does not cancel the statement.
+   * @throws {DatabricksSqlError} If the statement fails, StatementCancelledError if it was cancelled
+   */
+  wait(options?: WaitStatementOptions): Promise<StatementResult>
+  /** Cancel the statement server-side */
+  cancel(): Promise<void>
+  /** Wait for completion and collect all rows */
+  result(options?: FetchAllOptions): Promise<Array<RowArray | RowObject>>
+}
+
+/** Context passed to PollingStrategy.getIntervalMs */
+export type PollContext = {
+  /** Poll about to be issued (1-based) */
+  attempt: number
+  /** Milliseconds since the statement was submitted (or since polling started for attached statements) */
+  elapsedMs: number
+  /** State observed by the previous request */
+  state: StatementState
+}
+
+/** Delay between getStatement calls while a statement is running */
+export type PollingStrategy = {
+  /** Delay before the first poll in milliseconds (default: 500) */
+  initialIntervalMs?: number
+  /** Upper bound for poll delays in milliseconds (default: 5000; caps getIntervalMs only when set) */
+  maxIntervalMs?: number
+  /** Growth factor per poll (default: 2) */
+  backoffMultiplier?: number
+  /** Custom delay function; overrides the exponential schedule (capped by maxIntervalMs only when set) */
+  getIntervalMs?: (context: PollContext) => number
 }
 
 export type Logger = {
@@ -229,6 +574,140 @@ export type SignalOptions = {
   signal?: AbortSignal
 }
 
+/** Context passed to RetryPolicy.shouldRetry */
+export type RetryContext = {
+  /** Attempt that just failed (1-based) */
+  attempt: number
+  /** Error from the failed attempt (HttpError for HTTP responses) */
+  error: Error
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number
+  /** HTTP method of the request */
+  method: string
+  /** API path of the request */
+  path: string
+}
+
+/** Retry policy for REST calls */
+export type RetryPolicy = {
+  /** Max attempts including the first request (default: 4) */
+  maxAttempts?: number
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  initialDelayMs?: number
+  /** Upper bound for backoff delays in milliseconds (default: 30000) */
+  maxDelayMs?: number
+  /** Backoff growth factor per attempt (default: 2) */
+  backoffMultiplier?: number
+  /** Fraction of each delay randomized away, 0 to 1 (default: 0.2) */
+  jitter?: number
+  /** HTTP status codes to retry (default: 429, 500, 502, 503, 504) */
+  retryableStatusCodes?: number[]
+  /** Network error codes to retry (default: ECONNRESET, ETIMEDOUT, ...) */
+  retryableErrorCodes?: string[]
+  /** Veto hook; return false to stop retrying */
+  shouldRetry?: (context: RetryContext) => boolean | Promise<boolean>
+}
+
+/** fetch-compatible function used for HTTP calls */
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>
+
+/** undici Dispatcher accepted by Node's fetch (unknown when RequestInit has no dispatcher) */
+export type FetchDispatcher = RequestInit extends { dispatcher?: infer D } ? D : unknown
+
+/** REST operations issued against the Databricks API */
+export type ApiOperation =
+  | 'postStatement'
+  | 'getStatement'
+  | 'cancelStatement'
+  | 'getChunk'
+  | 'getQueryMetrics'
+  | 'listQueries'
+  | 'getWarehouse'
+  | 'listWarehouses'
+  | 'startWarehouse'
+  | 'stopWarehouse'
+
+/** Context passed to HttpHooks.onRequest */
+export type HttpRequestContext = {
+  /** API wrapper that issued the request */
+  operation: ApiOperation
+  /** HTTP method */
+  method: string
+  /** Full request URL */
+  url: string
+  /** Request headers; may be modified to add custom headers (e.g., User-Agent) */
+  headers: Record<string, string>
+  /** Request body before JSON serialization */
+  body?: unknown
+  /** Attempt number (1-based, increases on retries) */
+  attempt: number
+}
+
+/** Context passed to HttpHooks.onResponse */
+export type HttpResponseContext = HttpRequestContext & {
+  /** HTTP status code */
+  status: number
+  /** Time from sending the request to receiving the response in milliseconds */
+  durationMs: number
+}
+
+/** Context passed to HttpHooks.onError */
+export type HttpErrorContext = HttpRequestContext & {
+  /** Error for the failed attempt (HttpError for HTTP responses) */
+  error: Error
+  /** HTTP status code, when a response was received */
+  status?: number
+  /** Time from sending the request to the failure in milliseconds */
+  durationMs: number
+}
+
+/** Interceptor hooks called around every REST request attempt */
+export type HttpHooks = {
+  /** Called before each attempt is sent */
+  onRequest?: (context: HttpRequestContext) => void | Promise<void>
+  /** Called when an attempt succeeds */
+  onResponse?: (context: HttpResponseContext) => void | Promise<void>
+  /** Called when an attempt fails (HTTP error status or network error) */
+  onError?: (context: HttpErrorContext) => void | Promise<void>
+}
+
+/** Span attribute value (subset of OpenTelemetry AttributeValue) */
+export type SpanAttributeValue = string | number | boolean
+
+/** Span attributes (compatible with OpenTelemetry Attributes) */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>
+
+/** Minimal span interface, structurally compatible with an OpenTelemetry Span */
+export type TraceSpan = {
+  setAttribute(key: string, value: SpanAttributeValue): unknown
+  setStatus(status: { code: number; message?: string }): unknown
+  recordException(exception: Error): unknown
+  end(): void
+}
+
+/** Minimal tracer interface, structurally compatible with an OpenTelemetry Tracer */
+export type Tracer = {
+  startActiveSpan<F extends (span: TraceSpan) => unknown>(
+    name: string,
+    options: { attributes?: SpanAttributes },
+    fn: F
+  ): ReturnType<F>
+}
+
+/** Options for the REST calls made by an API function */
+export type HttpOptions = {
+  /** Retry policy for transient failures */
+  retry?: RetryPolicy
+  /** Custom fetch implementation (default: global fetch) */
+  fetch?: FetchLike
+  /** undici Dispatcher passed to fetch (e.g., ProxyAgent or Agent with custom CA and keep-alive) */
+  dispatcher?: FetchDispatcher
+  /** Request/response interceptor hooks */
+  hooks?: HttpHooks
+  /** OpenTelemetry tracer for spans around requests, polling, downloads, and uploads */
+  tracer?: Tracer
+}
+
 /** Row data as array */
 export type RowArray = unknown[]
 
@@ -247,7 +726,7 @@ export type RowMapperOptions = {
 export type FetchRowFormat = 'JSON_ARRAY' | 'JSON_OBJECT'
 
 /** Options for fetchStream */
-export type FetchStreamOptions = SignalOptions & {
+export type FetchStreamOptions = SignalOptions & HttpOptions & {
   /** Force merge even when there is only a single external link */
   forceMerge?: boolean
   /** Optional logger for lifecycle events */
@@ -255,21 +734,26 @@ export type FetchStreamOptions = SignalOptions & {
 }
 
 /** Options for fetchRow */
-export type FetchRowsOptions = SignalOptions & {
+export type FetchRowsOptions = SignalOptions & HttpOptions & {
   /** Row format (default: JSON_ARRAY) */
   format?: FetchRowFormat
   /** Optional logger for lifecycle events */
   logger?: Logger
-  /** Callback for each row */
-  onEachRow?: (row: RowArray | RowObject) => void
+  /** Callback for each row; a returned promise is awaited before more rows are read */
+  onEachRow?: (row: RowArray | RowObject) => void | Promise<void>
+  /** Maximum onEachRow promises pending at once (default: 1) */
+  rowConcurrency?: number
   /** Customize bigint conversion for JSON_OBJECT rows */
   encodeBigInt?: RowMapperOptions['encodeBigInt']
   /** Customize TIMESTAMP* conversion for JSON_OBJECT rows */
   encodeTimestamp?: RowMapperOptions['encodeTimestamp']
 }
 
+/** Options for fetchRows */
+export type FetchRowsIteratorOptions = Omit<FetchRowsOptions, 'onEachRow' | 'rowConcurrency'>
+
 /** Options for fetchAll */
-export type FetchAllOptions = SignalOptions & {
+export type FetchAllOptions = SignalOptions & HttpOptions & {
   /** Row format (default: JSON_ARRAY) */
   format?: FetchRowFormat
   /** Optional logger for lifecycle events */
@@ -291,7 +775,7 @@ export type MergeExternalLinksResult = {
 }
 
 /** Options for mergeExternalLinks */
-export type MergeExternalLinksOptions = SignalOptions & {
+export type MergeExternalLinksOptions = SignalOptions & HttpOptions & {
   /** Callback to upload merged stream to external link */
   mergeStreamToExternalLink: (stream: Readable) => Promise<MergeExternalLinksResult>
   /** Force merge even when there is only a single external link chunk */
@@ -300,6 +784,117 @@ export type MergeExternalLinksOptions = SignalOptions & {
   logger?: Logger
 }
 
+/** Options for createConcurrencyLimiter */
+export type ConcurrencyLimiterOptions = {
+  /** Maximum tasks running at once per warehouse */
+  maxConcurrent: number
+  /** Per-warehouse overrides of maxConcurrent, keyed by warehouse ID */
+  maxConcurrentByWarehouse?: Record<string, number>
+  /** Default time a task may wait for a slot before failing with QueueTimeoutError */
+  queueTimeoutMs?: number
+}
+
+/** Per-call queue options */
+export type QueuedTaskOptions = {
+  /** Higher runs first; equal priorities run in FIFO order (default: 0) */
+  priority?: number
+  /** Time this call may wait for a slot (overrides the limiter default) */
+  queueTimeoutMs?: number
+}
+
+/** Queue snapshot for one warehouse */
+export type WarehouseQueueStats = {
+  warehouseId: string
+  /** Concurrency limit for this warehouse */
+  maxConcurrent: number
+  /** Tasks currently holding a slot */
+  running: number
+  /** Tasks waiting for a slot */
+  queued: number
+  /** How long the oldest queued task has been waiting */
+  oldestQueuedMs: number
+  /** Tasks that have been given a slot so far */
+  startedCount: number
+  /** Mean queue wait of started tasks */
+  averageWaitMs: number
+  /** Longest queue wait of started tasks */
+  maxWaitMs: number
+}
+
+/** Limits concurrent tasks per warehouse with a priority queue */
+export type ConcurrencyLimiter = {
+  /**
+   * Run a task once the warehouse has a free slot.
+   * @throws {QueueTimeoutError} If no slot frees up within queueTimeoutMs
+   * @throws {AbortError} If signal aborts while queued
+   */
+  run<T>(
+    warehouseId: string,
+    task: () => Promise<T>,
+    options?: QueuedTaskOptions & { signal?: AbortSignal | undefined }
+  ): Promise<T>
+  /** Snapshot of every warehouse seen so far */
+  getStats(): WarehouseQueueStats[]
+}
+
+/** Defaults applied to every DatabricksSqlClient call */
+export type DatabricksSqlClientOptions = {
+  /** Default catalog name */
+  catalog?: string
+  /** Default schema name */
+  schema?: string
+  /** Optional logger for lifecycle events */
+  logger?: Logger
+  /** Default retry policy for REST calls */
+  retry?: RetryPolicy
+  /** Custom fetch implementation for all HTTP calls */
+  fetch?: FetchLike
+  /** undici Dispatcher for all HTTP calls */
+  dispatcher?: FetchDispatcher
+  /** Request/response interceptor hooks for all REST calls */
+  hooks?: HttpHooks
+  /** OpenTelemetry tracer for all calls */
+  tracer?: Tracer
+  /** Default polling strategy for statement execution */
+  polling?: PollingStrategy
+  /** Result cache for query() (other methods never read or write it) */
+  cache?: ResultCacheOptions
+  /** Limit concurrent statements per warehouse (execute, script, query, stream, merge) */
+  concurrency?: ConcurrencyLimiterOptions | ConcurrencyLimiter
+  /** Default row format for query() (default: JSON_ARRAY) */
+  rowFormat?: FetchRowFormat
+  /** Customize bigint conversion for JSON_OBJECT rows */
+  encodeBigInt?: RowMapperOptions['encodeBigInt']
+  /** Customize TIMESTAMP* conversion for JSON_OBJECT rows */
+  encodeTimestamp?: RowMapperOptions['encodeTimestamp']
+}
+
+/** Options for DatabricksSqlClient.execute */
+export type ClientExecuteOptions = ExecuteStatementOptions & QueuedTaskOptions
+
+/** Options for DatabricksSqlClient.script */
+export type ClientScriptOptions = ExecuteScriptOptions & QueuedTaskOptions
+
+/** Options for DatabricksSqlClient.query */
+export type ClientQueryOptions = ClientExecuteOptions & {
+  /** Row format (overrides the client default) */
+  rowFormat?: FetchRowFormat
+  /** Customize bigint conversion for JSON_OBJECT rows */
+  encodeBigInt?: RowMapperOptions['encodeBigInt']
+  /** Customize TIMESTAMP* conversion for JSON_OBJECT rows */
+  encodeTimestamp?: RowMapperOptions['encodeTimestamp']
+}
+
+/** Options for DatabricksSqlClient.stream */
+export type ClientStreamOptions = ClientExecuteOptions & {
+  /** Force merge even when there is only a single external link */
+  forceMerge?: boolean
+}
+
+/** Options for DatabricksSqlClient.merge */
+export type ClientMergeOptions = ClientExecuteOptions
+  & Pick<MergeExternalLinksOptions, 'mergeStreamToExternalLink' | 'forceMerge'>
+
 /**
  * API request for executeStatement
  * @see https://docs.databricks.com/api/workspace/statementexecution/executestatement
@@ -1,7 +1,7 @@
 import { Readable } from 'node:stream'
 import { pipeline } from 'node:stream/promises'
 import type { ReadableStream as WebReadableStream } from 'node:stream/web'
-import type { StatementResult, StatementManifest } from './types.js'
+import type { HttpOptions, StatementResult, StatementManifest } from './types.js'
 import { AbortError, DatabricksSqlError } from './errors.js'
 
 /**
@@ -51,6 +51,39 @@ export async function delay(ms: number, signal?: AbortSignal): Promise<void> {
   })
 }
 
+/** Abort signal combined from several others */
+export type CombinedSignal = {
+  signal: AbortSignal
+  /** Detach from the source signals once the combined signal is no longer needed */
+  dispose: () => void
+}
+
+/**
+ * Combine abort signals; the result aborts with the reason of the first source that aborts.
+ * Works like AbortSignal.any, which needs Node 20.3.
+ */
+export function combineSignals(signals: AbortSignal[]): CombinedSignal {
+  const controller = new AbortController()
+  const dispose = () => {
+    for (const signal of signals)
+      signal.removeEventListener('abort', onAbort)
+  }
+  const onAbort = (event: Event) => {
+    dispose()
+    controller.abort((event.target as AbortSignal).reason)
+  }
+
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort(signal.reason)
+      return { signal: controller.signal, dispose: () => { } }
+    }
+  }
+  for (const signal of signals)
+    signal.addEventListener('abort', onAbort, { once: true })
+  return { signal: controller.signal, dispose }
+}
+
 /**
  * Build full URL from host and path
  */
@@ -84,33 +117,56 @@ export function validateSucceededResult(
   return statementResult.manifest
 }
 
+/**
+ * Call the configured fetch implementation, attaching the dispatcher when provided.
+ */
+export function fetchWithOptions(
+  url: string,
+  init: RequestInit,
+  options: HttpOptions = {}
+): Promise<Response> {
+  const fetchImpl = options.fetch ?? fetch
+  return fetchImpl(url, options.dispatcher ? { ...init, dispatcher: options.dispatcher } : init)
+}
+
 function isWebReadableStream(body: unknown): body is WebReadableStream {
   return typeof (body as WebReadableStream).getReader === 'function'
 }
 
-export async function pipeUrlToOutput(
+/**
+ * Open an external link as a Node stream through the configured fetch.
+ */
+export async function openUrlStream(
   url: string,
-  output: NodeJS.WritableStream,
-  signal?: AbortSignal
-): Promise<void> {
-  // Uses Node 20+ global fetch with Web streams.
+  signal?: AbortSignal,
+  httpOptions: HttpOptions = {}
+): Promise<Readable> {
+  // Uses Node 20+ global fetch (or the injected one) with Web streams.
   if (signal?.aborted)
     throw new AbortError('Aborted while streaming')
 
-  const response = await fetch(url, signal ? { signal } : undefined)
+  const response = await fetchWithOptions(url, signal ? { signal } : {}, httpOptions)
   if (!response.ok) {
     throw new Error(
       `Failed to fetch external link: ${response.status} ${response.statusText}`
     )
   }
 
-  if (!response.body)
-    return void output.end()
-
   const body = response.body
-  const input = isWebReadableStream(body)
+  if (!body)
+    return Readable.from([])
+
+  return isWebReadableStream(body)
     ? Readable.fromWeb(body)
-    : (body as NodeJS.ReadableStream)
+    : (body as unknown as Readable)
+}
 
+export async function pipeUrlToOutput(
+  url: string,
+  output: NodeJS.WritableStream,
+  signal?: AbortSignal,
+  httpOptions: HttpOptions = {}
+): Promise<void> {
+  const input = await openUrlStream(url, signal, httpOptions)
   await pipeline(input, output)
 }
@@ -0,0 +1,87 @@
+import type {
+  AuthInfo,
+  ListWarehousesResponse,
+  WarehouseInfo,
+} from './types.js'
+import type { RequestOptions } from './http.js'
+import { httpRequest } from './http.js'
+
+// Base path for SQL Warehouses API.
+const WAREHOUSES_PATH = '/api/2.0/sql/warehouses'
+
+/**
+ * Get warehouse info
+ * GET /api/2.0/sql/warehouses/{id}
+ */
+export async function getWarehouse(
+  auth: AuthInfo,
+  warehouseId: string,
+  options: RequestOptions = {}
+): Promise<WarehouseInfo> {
+  return httpRequest<WarehouseInfo>(auth, {
+    operation: 'getWarehouse',
+    method: 'GET',
+    path: `${WAREHOUSES_PATH}/${warehouseId}`,
+    spanAttributes: {
+      'databricks.warehouse_id': warehouseId,
+    },
+    ...options,
+  })
+}
+
+/**
+ * List warehouses
+ * GET /api/2.0/sql/warehouses
+ */
+export async function listWarehouses(
+  auth: AuthInfo,
+  options: RequestOptions = {}
+): Promise<WarehouseInfo[]> {
+  const response = await httpRequest<ListWarehousesResponse>(auth, {
+    operation: 'listWarehouses',
+    method: 'GET',
+    path: WAREHOUSES_PATH,
+    ...options,
+  })
+  return response.warehouses ?? []
+}
+
+/**
+ * Start a stopped warehouse (returns before it is RUNNING)
+ * POST /api/2.0/sql/warehouses/{id}/start
+ */
+export async function startWarehouse(
+  auth: AuthInfo,
+  warehouseId: string,
+  options: RequestOptions = {}
+): Promise<void> {
+  await httpRequest<unknown>(auth, {
+    operation: 'startWarehouse',
+    method: 'POST',
+    path: `${WAREHOUSES_PATH}/${warehouseId}/start`,
+    spanAttributes: {
+      'databricks.warehouse_id': warehouseId,
+    },
+    ...options,
+  })
+}
+
+/**
+ * Stop a running warehouse (returns before it is STOPPED)
+ * POST /api/2.0/sql/warehouses/{id}/stop
+ */
+export async function stopWarehouse(
+  auth: AuthInfo,
+  warehouseId: string,
+  options: RequestOptions = {}
+): Promise<void> {
+  await httpRequest<unknown>(auth, {
+    operation: 'stopWarehouse',
+    method: 'POST',
+    path: `${WAREHOUSES_PATH}/${warehouseId}/stop`,
+    spanAttributes: {
+      'databricks.warehouse_id': warehouseId,
+    },
+    ...options,
+  })
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { Readable } from 'node:stream'
+import {
+  Binary,
+  DateDay,
+  Decimal,
+  Field,
+  Float32,
+  Float64,
+  Int32,
+  Int64,
+  List,
+  Map_,
+  Schema,
+  Struct,
+  Table,
+  TimestampMicrosecond,
+  Utf8,
+  Bool,
+  makeBuilder,
+  tableToIPC,
+  type DataType,
+} from 'apache-arrow'
+import { readArrowRows } from '../src/arrowRows.js'
+
+function buildTable(fields: Field[], rows: unknown[][]): Table {
+  const schema = new Schema(fields)
+  const columns = Object.fromEntries(fields.map((field, index) => {
+    const builder = makeBuilder({ type: field.type as DataType, nullValues: [null] })
+    for (const row of rows)
+      builder.append(row[index])
+    return [field.name, builder.finish().toVector()]
+  }))
+  return new Table(schema, columns)
+}
+
+async function collect(...tables: Table[]): Promise<unknown[][]> {
+  const bytes = Buffer.concat(tables.map((table) => tableToIPC(table, 'stream')))
+  const rows: unknown[][] = []
+  for await (const row of readArrowRows(Readable.from([bytes])))
+    rows.push(row)
+  return rows
+}
+
+describe('readArrowRows', () => {
+  it('should render primitive values the way JSON_ARRAY does', async () => {
+    const table = buildTable([
+      new Field('i', new Int32()),
+      new Field('big', new Int64()),
+      new Field('f', new Float32()),
+      new Field('d', new Float64()),
+      new Field('b', new Bool()),
+      new Field('s', new Utf8()),
+      new Field('dec', new Decimal(2, 10, 128)),
+      new Field('day', new DateDay()),
+      new Field('ts', new TimestampMicrosecond('Etc/UTC')),
+      new Field('ntz', new TimestampMicrosecond()),
+      new Field('bin', new Binary()),
+    ], [
+      [
+        1,
+        9007199254740993n,
+        0.1,
+        1.5,
+        true,
+        'hello',
+        new Uint32Array([12345, 0, 0, 0]),
+        new Date(Date.UTC(2024, 0, 2)),
+        Date.UTC(2024, 0, 2, 3, 4, 5, 123),
+        Date.UTC(2024, 0, 2, 3, 4, 5, 123),
+        new Uint8Array([104, 105]),
+      ],
+      [null, null, null, null, null, null, null, null, null, null, null],
+    ])
+
+    expect(await collect(table)).toEqual([
+      [
+        '1',
+        '9007199254740993',
+        '0.1',
+        '1.5',
+        'true',
+        'hello',
+        '123.45',
+        '2024-01-02',
+        '2024-01-02T03:04:05.123Z',
+        '2024-01-02T03:04:05.123',
+        'aGk=',
+      ],
+      [null, null, null, null, null, null, null, null, null, null, null],
+    ])
+  })
+
+  it('should render negative and small decimals with their scale', async () => {
+    const table = buildTable([new Field('dec', new Decimal(3, 10, 128))], [
+      [new Int32Array([-5, -1, -1, -1])],
+      [new Uint32Array([7, 0, 0, 0])],
+    ])
+
+    expect(await collect(table)).toEqual([['-0.005'], ['0.007']])
+  })
+
+  it('should render nested types as JSON text', async () => {
+    const table = buildTable([
+      new Field('st', new Struct([new Field('a', new Int32()), new Field('big', new Int64())])),
+      new Field('li', new List(new Field('item', new Float64()))),
+      new Field('m', new Map_(new Field('entries', new Struct([
+        new Field('key', new Utf8(), false),
+        new Field('value', new Int32()),
+      ])))),
+    ], [
+      [{ a: 1, big: 2n }, [1.5, null], new Map([['k', 3]])],
+    ])
+
+    expect(await collect(table)).toEqual([
+      ['{"a":1,"big":"2"}', '[1.5,null]', '{"k":3}'],
+    ])
+  })
+
+  it('should read consecutive IPC streams in order', async () => {
+    const fields = [new Field('id', new Int64())]
+
+    expect(await collect(
+      buildTable(fields, [[1n], [2n]]),
+      buildTable(fields, [[3n]])
+    )).toEqual([['1'], ['2'], ['3']])
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { attachStatement } from '../src/api'
+import { AbortError, DatabricksSqlError } from '../src/errors.js'
+import {
+  mockAuth,
+  mockFailedResult,
+  mockPendingResult,
+  mockRunningResult,
+  mockSucceededAfterPolling,
+  mockQueryInfo,
+} from './mocks.js'
+import { jsonResponse } from './testUtil.js'
+
+describe('attachStatement', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should resume polling an existing statement until it succeeds', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(mockRunningResult))
+      .mockResolvedValueOnce(jsonResponse(mockSucceededAfterPolling))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const resultPromise = attachStatement(mockPendingResult.statement_id, mockAuth)
+    await vi.advanceTimersByTimeAsync(500)
+    const result = await resultPromise
+
+    expect(result.status.state).toBe('SUCCEEDED')
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      1,
+      expect.stringContaining(`/api/2.0/sql/statements/${mockPendingResult.statement_id}`),
+      expect.objectContaining({ method: 'GET' })
+    )
+  })
+
+  it('should report progress with metrics', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(mockSucceededAfterPolling))
+      .mockResolvedValueOnce(jsonResponse(mockQueryInfo))
+    vi.stubGlobal('fetch', mockFetch)
+    const onProgress = vi.fn()
+
+    await attachStatement(mockPendingResult.statement_id, mockAuth, { onProgress, enableMetrics: true })
+
+    expect(onProgress).toHaveBeenCalledWith(
+      expect.objectContaining({ status: { state: 'SUCCEEDED' } }),
+      mockQueryInfo.metrics
+    )
+  })
+
+  it('should throw DatabricksSqlError when the statement failed', async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce(jsonResponse(mockFailedResult))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const promise = attachStatement(mockFailedResult.statement_id, mockAuth)
+
+    await expect(promise).rejects.toThrow(DatabricksSqlError)
+    await expect(promise).rejects.toThrow('Syntax error in SQL statement')
+  })
+
+  it('should stop polling on abort without cancelling the statement', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(mockRunningResult))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const controller = new AbortController()
+    const resultPromise = attachStatement(mockPendingResult.statement_id, mockAuth, {
+      signal: controller.signal,
+    })
+    const rejection = expect(resultPromise).rejects.toBeInstanceOf(AbortError)
+    await vi.advanceTimersByTimeAsync(0)
+    controller.abort()
+    await rejection
+
+    expect(mockFetch).not.toHaveBeenCalledWith(expect.stringContaining('/cancel'), expect.anything())
+  })
+})
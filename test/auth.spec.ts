@@ -0,0 +1,294 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { executeStatement, AuthenticationError } from '../src/index.js'
+import type { CredentialsProviderAuthInfo, OAuthM2MAuthInfo } from '../src/types.js'
+import { mockInlineResult, mockPendingResult, mockSucceededAfterPolling } from './mocks.js'
+
+function createOAuthAuth(clientId: string): OAuthM2MAuthInfo {
+  return {
+    clientId,
+    clientSecret: 'test-secret',
+    host: 'test.cloud.databricks.com',
+    httpPath: '/sql/1.0/warehouses/abc123def456',
+  }
+}
+
+// Routes token endpoint calls to a local stand-in and everything else to the statements API.
+function createTokenEndpointFetch(expiresIn = 3600) {
+  let issued = 0
+  return vi.fn((url: string, _init?: RequestInit) => {
+    if (url.endsWith('/oidc/v1/token')) {
+      issued++
+      return Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({
+          access_token: `oauth-token-${issued}`,
+          token_type: 'Bearer',
+          expires_in: expiresIn,
+        }),
+      })
+    }
+    return Promise.resolve({
+      ok: true,
+      json: () => Promise.resolve(mockInlineResult),
+    })
+  })
+}
+
+function getTokenCalls(mockFetch: ReturnType<typeof createTokenEndpointFetch>) {
+  return mockFetch.mock.calls.filter(([url]) => url.endsWith('/oidc/v1/token'))
+}
+
+function getAuthorizationHeaders(mockFetch: ReturnType<typeof createTokenEndpointFetch>) {
+  return mockFetch.mock.calls
+    .filter(([url]) => url.includes('/api/2.0/sql/statements'))
+    .map((call) => (call as unknown[])[1] as RequestInit)
+    .map((init) => (init.headers as Record<string, string>).Authorization)
+}
+
+describe('OAuth M2M authentication', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should exchange client credentials for a bearer token', async () => {
+    const mockFetch = createTokenEndpointFetch()
+    vi.stubGlobal('fetch', mockFetch)
+
+    await executeStatement('SELECT 1', createOAuthAuth('client-exchange'))
+
+    const [[tokenUrl, tokenInit]] = getTokenCalls(mockFetch) as unknown as [[string, RequestInit]]
+    expect(tokenUrl).toBe('https://test.cloud.databricks.com/oidc/v1/token')
+    expect(tokenInit.method).toBe('POST')
+    expect((tokenInit.headers as Record<string, string>).Authorization).toBe(
+      `Basic ${Buffer.from('client-exchange:test-secret').toString('base64')}`
+    )
+    expect(tokenInit.body).toBe('grant_type=client_credentials&scope=all-apis')
+    expect(getAuthorizationHeaders(mockFetch)).toEqual(['Bearer oauth-token-1'])
+  })
+
+  it('should reuse the cached token across calls', async () => {
+    const mockFetch = createTokenEndpointFetch()
+    vi.stubGlobal('fetch', mockFetch)
+    const auth = createOAuthAuth('client-cache')
+
+    await executeStatement('SELECT 1', auth)
+    await executeStatement('SELECT 2', auth)
+    await Promise.all([
+      executeStatement('SELECT 3', auth),
+      executeStatement('SELECT 4', auth),
+    ])
+
+    expect(getTokenCalls(mockFetch)).toHaveLength(1)
+    expect(getAuthorizationHeaders(mockFetch)).toEqual(Array(4).fill('Bearer oauth-token-1'))
+  })
+
+  it('should not reuse a cached token for a different client secret', async () => {
+    const mockFetch = createTokenEndpointFetch()
+    vi.stubGlobal('fetch', mockFetch)
+    const auth = createOAuthAuth('client-secret')
+
+    await executeStatement('SELECT 1', auth)
+    await executeStatement('SELECT 2', { ...auth, clientSecret: 'revoked-secret' })
+
+    expect(getTokenCalls(mockFetch)).toHaveLength(2)
+    expect(getAuthorizationHeaders(mockFetch)).toEqual(['Bearer oauth-token-1', 'Bearer oauth-token-2'])
+  })
+
+  it('should share a single token request between concurrent callers', async () => {
+    const mockFetch = createTokenEndpointFetch()
+    vi.stubGlobal('fetch', mockFetch)
+    const auth = createOAuthAuth('client-concurrent')
+
+    await Promise.all([
+      executeStatement('SELECT 1', auth),
+      executeStatement('SELECT 2', auth),
+      executeStatement('SELECT 3', auth),
+    ])
+
+    expect(getTokenCalls(mockFetch)).toHaveLength(1)
+  })
+
+  it('should refresh the token before it expires', async () => {
+    vi.useFakeTimers()
+    const mockFetch = createTokenEndpointFetch(300)
+    vi.stubGlobal('fetch', mockFetch)
+    const auth = createOAuthAuth('client-refresh')
+
+    await executeStatement('SELECT 1', auth)
+    // Still outside the refresh margin.
+    vi.advanceTimersByTime(200 * 1000)
+    await executeStatement('SELECT 2', auth)
+    // Inside the refresh margin (token expires in 40s).
+    vi.advanceTimersByTime(60 * 1000)
+    await executeStatement('SELECT 3', auth)
+
+    expect(getTokenCalls(mockFetch)).toHaveLength(2)
+    expect(getAuthorizationHeaders(mockFetch)).toEqual([
+      'Bearer oauth-token-1',
+      'Bearer oauth-token-1',
+      'Bearer oauth-token-2',
+    ])
+  })
+
+  it('should request tokens through the injected fetch', async () => {
+    const globalFetch = vi.fn()
+    vi.stubGlobal('fetch', globalFetch)
+    const customFetch = createTokenEndpointFetch()
+
+    await executeStatement('SELECT 1', createOAuthAuth('client-custom-fetch'), { fetch: customFetch })
+
+    expect(getTokenCalls(customFetch)).toHaveLength(1)
+    expect(getAuthorizationHeaders(customFetch)).toEqual(['Bearer oauth-token-1'])
+    expect(globalFetch).not.toHaveBeenCalled()
+  })
+
+  it('should throw AuthenticationError when the token endpoint rejects credentials', async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce({
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+      text: () => Promise.resolve('invalid_client'),
+    })
+    vi.stubGlobal('fetch', mockFetch)
+
+    await expect(
+      executeStatement('SELECT 1', createOAuthAuth('client-invalid'))
+    ).rejects.toThrow(AuthenticationError)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('credentials provider authentication', () => {
+  const createProviderAuth = (getToken: CredentialsProviderAuthInfo['getToken']): CredentialsProviderAuthInfo => ({
+    getToken,
+    host: 'test.cloud.databricks.com',
+    httpPath: '/sql/1.0/warehouses/abc123def456',
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should call getToken for every request', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve(mockInlineResult),
+    })
+    vi.stubGlobal('fetch', mockFetch)
+    let issued = 0
+    const getToken = vi.fn(() => Promise.resolve(`provided-token-${++issued}`))
+    const auth = createProviderAuth(getToken)
+
+    await executeStatement('SELECT 1', auth)
+    await executeStatement('SELECT 2', auth)
+
+    expect(getToken).toHaveBeenCalledTimes(2)
+    expect(getToken).toHaveBeenCalledWith({ forceRefresh: false })
+    expect(mockFetch.mock.calls.map(([, init]) => init.headers.Authorization)).toEqual([
+      'Bearer provided-token-1',
+      'Bearer provided-token-2',
+    ])
+  })
+
+  it('should retry once with a forced refresh after a 401', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        text: () => Promise.resolve('expired'),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(mockInlineResult),
+      })
+    vi.stubGlobal('fetch', mockFetch)
+    const getToken = vi.fn(({ forceRefresh }: { forceRefresh: boolean }) =>
+      Promise.resolve(forceRefresh ? 'fresh-token' : 'stale-token'))
+
+    const result = await executeStatement('SELECT 1', createProviderAuth(getToken))
+
+    expect(result.status.state).toBe('SUCCEEDED')
+    expect(getToken).toHaveBeenNthCalledWith(2, { forceRefresh: true })
+    expect(mockFetch.mock.calls.map(([, init]) => init.headers.Authorization)).toEqual([
+      'Bearer stale-token',
+      'Bearer fresh-token',
+    ])
+  })
+
+  it('should throw AuthenticationError when the refreshed token is also rejected', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+      text: () => Promise.resolve('expired'),
+    })
+    vi.stubGlobal('fetch', mockFetch)
+    const getToken = vi.fn(() => Promise.resolve('rejected-token'))
+
+    await expect(
+      executeStatement('SELECT 1', createProviderAuth(getToken))
+    ).rejects.toThrow(AuthenticationError)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(getToken).toHaveBeenCalledTimes(2)
+  })
+
+  it('should refresh an expired token in the middle of polling', async () => {
+    vi.useFakeTimers()
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(mockPendingResult),
+      })
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        text: () => Promise.resolve('expired'),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(mockSucceededAfterPolling),
+      })
+    vi.stubGlobal('fetch', mockFetch)
+    const getToken = vi.fn(({ forceRefresh }: { forceRefresh: boolean }) =>
+      Promise.resolve(forceRefresh ? 'fresh-token' : 'stale-token'))
+
+    const resultPromise = executeStatement('SELECT 42', createProviderAuth(getToken))
+    await vi.advanceTimersByTimeAsync(5000)
+    const result = await resultPromise
+
+    expect(result.status.state).toBe('SUCCEEDED')
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+    expect(getToken).toHaveBeenLastCalledWith({ forceRefresh: true })
+  })
+
+  it('should force a new OAuth M2M token after a 401', async () => {
+    const tokenFetch = createTokenEndpointFetch()
+    let rejected = false
+    const mockFetch = vi.fn((url: string, init: RequestInit) => {
+      if (!url.endsWith('/oidc/v1/token') && !rejected) {
+        rejected = true
+        return Promise.resolve({
+          ok: false,
+          status: 401,
+          statusText: 'Unauthorized',
+          text: () => Promise.resolve('revoked'),
+        })
+      }
+      return tokenFetch(url, init)
+    })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const result = await executeStatement('SELECT 1', createOAuthAuth('client-revoked'))
+
+    expect(result.status.state).toBe('SUCCEEDED')
+    expect(getTokenCalls(tokenFetch)).toHaveLength(2)
+    expect(getAuthorizationHeaders(tokenFetch)).toEqual(['Bearer oauth-token-2'])
+  })
+})
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { executeStatement } from '../src/api'
+import { buildCacheKey, createMemoryCacheStore, getCacheTtl, normalizeSql } from '../src/cache.js'
+import { sql } from '../src/sql.js'
+import type { AuthInfo, ExecuteStatementOptions, StatementResult } from '../src/types.js'
+import { mockAuth, mockExternalLinksResult, mockInlineResult } from './mocks.js'
+import { jsonResponse } from './testUtil.js'
+
+function withLinkExpiration(expiration: string): StatementResult {
+  return {
+    ...mockExternalLinksResult,
+    result: {
+      ...mockExternalLinksResult.result,
+      external_links: mockExternalLinksResult.result!.external_links!.map((link) => ({ ...link, expiration })),
+    },
+  }
+}
+
+describe('createMemoryCacheStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should expire entries after their TTL', () => {
+    const store = createMemoryCacheStore()
+    store.set('a', mockInlineResult, 1000)
+
+    vi.advanceTimersByTime(999)
+    expect(store.get('a')).toBe(mockInlineResult)
+    vi.advanceTimersByTime(1)
+    expect(store.get('a')).toBeUndefined()
+  })
+
+  it('should evict the least recently used entry', () => {
+    const store = createMemoryCacheStore({ maxEntries: 2 })
+    store.set('a', mockInlineResult, 60_000)
+    store.set('b', mockInlineResult, 60_000)
+    store.get('a')
+    store.set('c', mockInlineResult, 60_000)
+
+    expect(store.get('a')).toBe(mockInlineResult)
+    expect(store.get('b')).toBeUndefined()
+    expect(store.get('c')).toBe(mockInlineResult)
+  })
+})
+
+describe('cache keys', () => {
+  it('should normalize whitespace and trailing semicolons outside literals', () => {
+    expect(normalizeSql('  SELECT *\n  FROM   t\tWHERE a = \'x   y\' ;  ')).toBe('SELECT * FROM t WHERE a = \'x   y\'')
+  })
+
+  it('should keep comments intact', () => {
+    expect(normalizeSql('SELECT 1 -- x\nFROM t')).not.toBe(normalizeSql('SELECT 1 -- x FROM t'))
+    expect(normalizeSql('SELECT 1  -- a   b\n   FROM t')).toBe('SELECT 1 -- a   b\nFROM t')
+    expect(normalizeSql('SELECT /*  a\n  b */ 1')).toBe('SELECT /*  a\n  b */ 1')
+  })
+
+  it('should include warehouse, catalog, schema, and parameters', () => {
+    const base = buildCacheKey(sql`SELECT ${1}`, mockAuth, 'w1', { catalog: 'main', schema: 'a' })
+
+    expect(buildCacheKey(sql`SELECT   ${1}`, mockAuth, 'w1', { catalog: 'main', schema: 'a' })).toBe(base)
+    expect(buildCacheKey(sql`SELECT ${2}`, mockAuth, 'w1', { catalog: 'main', schema: 'a' })).not.toBe(base)
+    expect(buildCacheKey(sql`SELECT ${1}`, mockAuth, 'w2', { catalog: 'main', schema: 'a' })).not.toBe(base)
+    expect(buildCacheKey(sql`SELECT ${1}`, mockAuth, 'w1', { catalog: 'main', schema: 'b' })).not.toBe(base)
+    expect(buildCacheKey(sql`SELECT ${1}`, mockAuth, 'w1', { catalog: 'other', schema: 'a' })).not.toBe(base)
+  })
+
+  it('should scope keys to the workspace host and caller identity', () => {
+    const key = (auth: AuthInfo, options: ExecuteStatementOptions = {}) => buildCacheKey('SELECT 1', auth, 'w1', options)
+    const store = createMemoryCacheStore()
+    const base = key(mockAuth)
+    const oauth = { host: mockAuth.host, httpPath: mockAuth.httpPath, clientId: 'app-1', clientSecret: 'secret' }
+    const providerA = { host: mockAuth.host, httpPath: mockAuth.httpPath, getToken: () => Promise.resolve('a') }
+    const providerB = { host: mockAuth.host, httpPath: mockAuth.httpPath, getToken: () => Promise.resolve('b') }
+
+    expect(key({ ...mockAuth })).toBe(base)
+    expect(key({ ...mockAuth, host: 'other.cloud.databricks.com' })).not.toBe(base)
+    expect(key({ ...mockAuth, token: 'other-token' })).not.toBe(base)
+    expect(key(oauth)).not.toBe(key({ ...oauth, clientId: 'app-2' }))
+    expect(key(providerA)).toBe(key({ ...providerA }))
+    expect(key(providerA)).not.toBe(key(providerB))
+    expect(key(providerA, { cache: { store, namespace: 'team-a' } }))
+      .toBe(key(providerB, { cache: { store, namespace: 'team-a' } }))
+    expect(key(mockAuth, { cache: { store, namespace: 'team-a' } })).not.toBe(base)
+  })
+
+  it('should cap the TTL at external link expiration', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z')
+
+    expect(getCacheTtl(mockInlineResult, 60_000, now)).toBe(60_000)
+    expect(getCacheTtl(withLinkExpiration('2025-01-01T00:01:30Z'), 60_000, now)).toBe(30_000)
+    expect(getCacheTtl(withLinkExpiration('2025-01-01T00:00:30Z'), 60_000, now)).toBe(0)
+  })
+})
+
+describe('executeStatement with cache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should serve identical statements from the cache', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(mockInlineResult))
+    vi.stubGlobal('fetch', mockFetch)
+    const cache = { store: createMemoryCacheStore() }
+
+    const first = await executeStatement('SELECT 1', mockAuth, { cache })
+    const second = await executeStatement('SELECT  1;', mockAuth, { cache })
+
+    expect(second).toEqual(first)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should skip the lookup but refresh the entry when bypassing', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(mockInlineResult))
+    vi.stubGlobal('fetch', mockFetch)
+    const store = createMemoryCacheStore()
+    const setSpy = vi.spyOn(store, 'set')
+    const cache = { store }
+
+    await executeStatement('SELECT 1', mockAuth, { cache })
+    await executeStatement('SELECT 1', mockAuth, { cache, bypassCache: true })
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(setSpy).toHaveBeenCalledTimes(2)
+  })
+
+  it('should never serve results with expired external links', async () => {
+    const expired = withLinkExpiration('2000-01-01T00:00:00Z')
+    const fresh = withLinkExpiration('2999-01-01T00:00:00Z')
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(fresh))
+    vi.stubGlobal('fetch', mockFetch)
+    // A store that ignores TTLs must still not leak expired links.
+    const entries = new Map<string, StatementResult>()
+    const store = {
+      get: (key: string) => entries.get(key),
+      set: (key: string, value: StatementResult) => void entries.set(key, value),
+      delete: vi.fn((key: string) => void entries.delete(key)),
+    }
+    const key = buildCacheKey('SELECT 1', mockAuth, 'abc123def456', { disposition: 'EXTERNAL_LINKS' })
+    entries.set(key, expired)
+
+    const result = await executeStatement('SELECT 1', mockAuth, {
+      cache: { store },
+      disposition: 'EXTERNAL_LINKS',
+    })
+
+    expect(result).toEqual(fresh)
+    expect(store.delete).toHaveBeenCalledWith(key)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not cache failed statements', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse({
+      statement_id: 'failed',
+      status: { state: 'FAILED', error: { message: 'boom' } },
+    }))
+    vi.stubGlobal('fetch', mockFetch)
+    const cache = { store: createMemoryCacheStore() }
+
+    await expect(executeStatement('SELECT 1', mockAuth, { cache })).rejects.toThrow('boom')
+    await expect(executeStatement('SELECT 1', mockAuth, { cache })).rejects.toThrow('boom')
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { Readable } from 'node:stream'
+import { RecordBatchReader, tableFromArrays, tableToIPC } from 'apache-arrow'
+import type { StatementManifest } from '../src/types.js'
+import { createChunkJoiner } from '../src/chunkJoiner.js'
+import { collectStream } from './testUtil.js'
+
+// Each link is given as the pieces its body arrives in.
+async function join(format: StatementManifest['format'], links: Array<Array<string | Uint8Array>>): Promise<Buffer> {
+  const joiner = createChunkJoiner(format)
+  const parts: Buffer[] = []
+  for (const pieces of links) {
+    const input = Readable.from(pieces.map((piece) => Buffer.from(piece)))
+    parts.push(await collectStream(input.pipe(joiner.next())))
+  }
+  parts.push(joiner.end())
+  return Buffer.concat(parts)
+}
+
+describe('createChunkJoiner', () => {
+  it('should join JSON arrays into one array', async () => {
+    const joined = await join('JSON_ARRAY', [['[["a"],["b"]]'], [' [ ] '], ['\n[["c"]]\n']])
+    expect(JSON.parse(joined.toString())).toEqual([['a'], ['b'], ['c']])
+  })
+
+  it('should join JSON arrays split at any position', async () => {
+    const first = '[["a,]"],\n["b"]] '
+    const second = '[["c"]]'
+    for (let split = 1; split < first.length; split++) {
+      const joined = await join('JSON_ARRAY', [[first.slice(0, split), first.slice(split)], [second]])
+      expect(JSON.parse(joined.toString())).toEqual([['a,]'], ['b'], ['c']])
+    }
+  })
+
+  it('should return an empty array when no link has rows', async () => {
+    expect((await join('JSON_ARRAY', [['[]'], []])).toString()).toBe('[]')
+  })
+
+  it('should keep only the first CSV header', async () => {
+    const joined = await join('CSV', [['id,"na\nme"\n1,a'], ['id,"na', '\nme"\r\n2,b\n'], ['id,"na\nme"\n']])
+    expect(joined.toString()).toBe('id,"na\nme"\n1,a\n2,b\n')
+  })
+
+  it('should join Arrow IPC streams into one stream', async () => {
+    const first = tableToIPC(tableFromArrays({ id: Int32Array.from([1, 2]) }), 'stream')
+    const second = tableToIPC(tableFromArrays({ id: Int32Array.from([3]) }), 'stream')
+    const joined = await join('ARROW_STREAM', [[first.subarray(0, 5), first.subarray(5)], [second]])
+
+    // A single reader stops at the first end-of-stream marker, so it sees every row only after a clean join.
+    const ids: number[] = []
+    for await (const batch of RecordBatchReader.from(joined))
+      ids.push(...batch.getChild('id')!.toArray())
+    expect(ids).toEqual([1, 2, 3])
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { DatabricksSqlClient } from '../src/index.js'
+import { HttpError } from '../src/errors.js'
+import type { MergeExternalLinksResult } from '../src/types.js'
+import {
+  mockAuth,
+  mockInlineResult,
+  mockExternalLinksResult,
+  mockExternalLinkData,
+} from './mocks.js'
+import { collectStream, createStreamResponse } from './testUtil.js'
+
+function getRequestBody(mockFetch: ReturnType<typeof vi.fn>, callIndex = 0): Record<string, unknown> {
+  const init = mockFetch.mock.calls[callIndex]?.[1] as RequestInit
+  return JSON.parse(init.body as string) as Record<string, unknown>
+}
+
+describe('DatabricksSqlClient', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should apply default catalog and schema to every statement', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve(mockInlineResult),
+    })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const client = new DatabricksSqlClient(mockAuth, { catalog: 'main', schema: 'sales' })
+    await client.execute('SELECT 1')
+    await client.execute('SELECT 2', { schema: 'finance' })
+
+    expect(getRequestBody(mockFetch, 0)).toMatchObject({ catalog: 'main', schema: 'sales' })
+    expect(getRequestBody(mockFetch, 1)).toMatchObject({ catalog: 'main', schema: 'finance' })
+  })
+
+  it('should apply the client retry policy to REST calls', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: false,
+      status: 503,
+      statusText: 'Service Unavailable',
+      headers: new Headers(),
+      text: () => Promise.resolve('unavailable'),
+    })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const client = new DatabricksSqlClient(mockAuth, { retry: { maxAttempts: 1 } })
+
+    await expect(client.execute('SELECT 1')).rejects.toThrow(HttpError)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should query rows using the default row format', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve(mockInlineResult),
+    })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const client = new DatabricksSqlClient(mockAuth, { rowFormat: 'JSON_OBJECT' })
+
+    await expect(client.query('SELECT 1')).resolves.toEqual([{ num: 1, str: 'hello' }])
+    await expect(client.query('SELECT 1', { rowFormat: 'JSON_ARRAY' })).resolves.toEqual([['1', 'hello']])
+  })
+
+  it('should forward the shared logger to execution and fetching', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve(mockInlineResult),
+    })
+    vi.stubGlobal('fetch', mockFetch)
+    const logger = { info: vi.fn() }
+
+    const client = new DatabricksSqlClient(mockAuth, { logger })
+    await client.query('SELECT 1')
+
+    const messages = logger.info.mock.calls.map(([message]) => String(message))
+    expect(messages.some((message) => message.startsWith('executeStatement'))).toBe(true)
+    expect(messages.some((message) => message.startsWith('fetchAll'))).toBe(true)
+  })
+
+  it('should stream external links with EXTERNAL_LINKS disposition by default', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(mockExternalLinksResult),
+      })
+      .mockResolvedValueOnce(createStreamResponse(JSON.stringify(mockExternalLinkData)))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const client = new DatabricksSqlClient(mockAuth)
+    const stream = await client.stream('SELECT * FROM range(100)')
+    const data = await collectStream(stream)
+
+    expect(getRequestBody(mockFetch)).toMatchObject({ disposition: 'EXTERNAL_LINKS' })
+    expect(JSON.parse(data.toString())).toEqual(mockExternalLinkData)
+  })
+
+  it('should merge external links through the upload callback', async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve(mockExternalLinksResult),
+    })
+    vi.stubGlobal('fetch', mockFetch)
+    const mergeStreamToExternalLink = vi.fn<() => Promise<MergeExternalLinksResult>>()
+
+    const client = new DatabricksSqlClient(mockAuth)
+    const merged = await client.merge('SELECT * FROM range(100)', { mergeStreamToExternalLink })
+
+    // Single external link is returned as-is unless forceMerge is set.
+    expect(merged).toEqual(mockExternalLinksResult)
+    expect(mergeStreamToExternalLink).not.toHaveBeenCalled()
+    expect(getRequestBody(mockFetch)).toMatchObject({ disposition: 'EXTERNAL_LINKS' })
+  })
+})
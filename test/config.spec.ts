@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { resolveAuth, ConfigurationError } from '../src/index.js'
+import { parseDatabricksConfig } from '../src/config.js'
+
+const CONFIG = `
+; Shared config used by the Databricks CLI
+[DEFAULT]
+host = https://default.cloud.databricks.com
+token = dapi-default
+http_path = /sql/1.0/warehouses/default123
+
+[service]
+host = https://service.cloud.databricks.com
+client_id = sp-client
+client_secret = sp-secret
+warehouse_id = svc456
+
+[partial]
+host = https://partial.cloud.databricks.com
+client_id = only-id
+warehouse_id = part789
+`
+
+describe('resolveAuth', () => {
+  let dir: string
+  let configFile: string
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'databricks-sql-config-'))
+    configFile = join(dir, '.databrickscfg')
+    await writeFile(configFile, CONFIG)
+  })
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should resolve the DEFAULT profile', async () => {
+    await expect(resolveAuth({ configFile, env: {} })).resolves.toEqual({
+      host: 'https://default.cloud.databricks.com',
+      token: 'dapi-default',
+      httpPath: '/sql/1.0/warehouses/default123',
+    })
+  })
+
+  it('should resolve OAuth M2M credentials and warehouse_id from a named profile', async () => {
+    await expect(resolveAuth({ configFile, profile: 'service', env: {} })).resolves.toEqual({
+      host: 'https://service.cloud.databricks.com',
+      clientId: 'sp-client',
+      clientSecret: 'sp-secret',
+      httpPath: '/sql/1.0/warehouses/svc456',
+    })
+  })
+
+  it('should read the profile and config file from environment variables', async () => {
+    const auth = await resolveAuth({
+      env: { DATABRICKS_CONFIG_FILE: configFile, DATABRICKS_CONFIG_PROFILE: 'service' },
+    })
+
+    expect(auth.host).toBe('https://service.cloud.databricks.com')
+  })
+
+  it('should let environment variables override profile attributes', async () => {
+    const auth = await resolveAuth({
+      configFile,
+      env: {
+        DATABRICKS_TOKEN: 'dapi-env',
+        DATABRICKS_WAREHOUSE_ID: 'env999',
+      },
+    })
+
+    expect(auth).toEqual({
+      host: 'https://default.cloud.databricks.com',
+      token: 'dapi-env',
+      httpPath: '/sql/1.0/warehouses/env999',
+    })
+  })
+
+  it('should resolve from environment variables alone when no config file exists', async () => {
+    await expect(resolveAuth({
+      configFile: join(dir, 'missing.cfg'),
+      env: {
+        DATABRICKS_HOST: 'env.cloud.databricks.com',
+        DATABRICKS_TOKEN: 'dapi-env',
+        DATABRICKS_HTTP_PATH: '/sql/1.0/warehouses/env123',
+      },
+    })).resolves.toEqual({
+      host: 'env.cloud.databricks.com',
+      token: 'dapi-env',
+      httpPath: '/sql/1.0/warehouses/env123',
+    })
+  })
+
+  it('should throw ConfigurationError for an unknown explicit profile', async () => {
+    await expect(resolveAuth({ configFile, profile: 'missing', env: {} })).rejects.toThrow(
+      new ConfigurationError(`Profile "missing" not found in ${configFile}`)
+    )
+  })
+
+  it('should throw ConfigurationError for a missing config file when a profile is requested', async () => {
+    await expect(
+      resolveAuth({ configFile: join(dir, 'missing.cfg'), profile: 'service', env: {} })
+    ).rejects.toThrow(ConfigurationError)
+  })
+
+  it('should throw ConfigurationError for incomplete settings', async () => {
+    await expect(resolveAuth({ configFile, profile: 'partial', env: {} })).rejects.toThrow(
+      'Incomplete OAuth credentials'
+    )
+    await expect(resolveAuth({
+      configFile: join(dir, 'missing.cfg'),
+      env: { DATABRICKS_HOST: 'env.cloud.databricks.com', DATABRICKS_TOKEN: 'dapi-env' },
+    })).rejects.toThrow('Missing SQL warehouse')
+    await expect(resolveAuth({ configFile: join(dir, 'missing.cfg'), env: {} })).rejects.toThrow(
+      'Missing Databricks host'
+    )
+  })
+})
+
+describe('parseDatabricksConfig', () => {
+  it('should parse sections, lowercase keys, and skip comments', () => {
+    const profiles = parseDatabricksConfig('# comment\n[a]\nHOST = h\nToken=t\n\n[b]\nhost: x\n')
+
+    expect(profiles.get('a')).toEqual({ host: 'h', token: 't' })
+    expect(profiles.get('b')).toEqual({ host: 'x' })
+  })
+
+  it('should reject keys outside of a section', () => {
+    expect(() => parseDatabricksConfig('host = h')).toThrow(ConfigurationError)
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { Readable } from 'node:stream'
+import { readCsvRecords } from '../src/csvRows.js'
+
+async function parse(...chunks: Array<string | Buffer>): Promise<Array<Array<string | null>>> {
+  const records: Array<Array<string | null>> = []
+  const buffers = chunks.map((chunk) => typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+  for await (const record of readCsvRecords(Readable.from(buffers)))
+    records.push(record)
+  return records
+}
+
+describe('readCsvRecords', () => {
+  it('should parse quoted fields with commas, quotes, and line breaks', async () => {
+    expect(await parse('a,b\n"x, y","say ""hi""\r\nthere"\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\r\nthere'],
+    ])
+  })
+
+  it('should keep quoted empty fields and turn unquoted ones into null', async () => {
+    expect(await parse(',"",x\n')).toEqual([[null, '', 'x']])
+  })
+
+  it('should handle CRLF, LF, and a missing final line break', async () => {
+    expect(await parse('1,2\r\n3,4\n5,6')).toEqual([['1', '2'], ['3', '4'], ['5', '6']])
+  })
+
+  it('should keep empty lines as single null fields', async () => {
+    expect(await parse('a\n\nb\n')).toEqual([['a'], [null], ['b']])
+  })
+
+  it('should parse input split at any position', async () => {
+    const csv = 'id,"na""me"\r\n1,"multi\nline"\r\n2,\r\n'
+    const expected = await parse(csv)
+
+    for (let split = 1; split < csv.length; split++)
+      expect(await parse(csv.slice(0, split), csv.slice(split))).toEqual(expected)
+  })
+
+  it('should decode multi-byte characters split across chunks and strip a BOM', async () => {
+    const bytes = Buffer.from('\uFEFFname\n한글\n')
+
+    expect(await parse(bytes.subarray(0, 9), bytes.subarray(9))).toEqual([['name'], ['한글']])
+  })
+
+  it('should reject an unterminated quoted field', async () => {
+    await expect(parse('a,"open\n')).rejects.toThrow('CSV input ended inside a quoted field')
+  })
+})
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { executeStatement } from '../src/api'
+import { AbortError, StatementTimeoutError } from '../src/errors.js'
+import type { AuthInfo } from '../src/types.js'
+import { mockPendingResult, mockSucceededAfterPolling } from './mocks.js'
+import { jsonResponse } from './testUtil.js'
+
+// Route requests so the statement stays pending until `succeed` is called.
+function createStatementApi() {
+  let done = false
+  const fetch = vi.fn((_url: string, init: RequestInit) => {
+    const url = String(_url)
+    if (init.method === 'POST' && url.endsWith('/cancel'))
+      return Promise.resolve(jsonResponse({}))
+    if (init.method === 'POST')
+      return Promise.resolve(jsonResponse(mockPendingResult))
+    return Promise.resolve(jsonResponse(done ? mockSucceededAfterPolling : mockPendingResult))
+  })
+  const calls = (predicate: (url: string, method: string | undefined) => boolean) =>
+    fetch.mock.calls.filter(([url, init]) => predicate(String(url), init.method)).length
+  return {
+    fetch,
+    succeed: () => { done = true },
+    submitCount: () => calls((url, method) => method === 'POST' && !url.endsWith('/cancel')),
+    cancelCount: () => calls((url) => url.endsWith('/cancel')),
+  }
+}
+
+describe('executeStatement with dedupe', () => {
+  // Fresh auth per test keeps in-flight statements from leaking between tests.
+  let auth: AuthInfo
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    auth = {
+      token: 'test-token',
+      host: 'test.cloud.databricks.com',
+      httpPath: '/sql/1.0/warehouses/abc123def456',
+    }
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should share one statement between identical concurrent calls', async () => {
+    const api = createStatementApi()
+    vi.stubGlobal('fetch', api.fetch)
+
+    const first = executeStatement('SELECT 42', auth, { dedupe: true })
+    const second = executeStatement('SELECT  42', auth, { dedupe: true })
+    api.succeed()
+    await vi.advanceTimersByTimeAsync(500)
+
+    const [a, b] = await Promise.all([first, second])
+    expect(a).toEqual(mockSucceededAfterPolling)
+    expect(b).toBe(a)
+    expect(api.submitCount()).toBe(1)
+  })
+
+  it('should not share statements with different text or without dedupe', async () => {
+    const api = createStatementApi()
+    vi.stubGlobal('fetch', api.fetch)
+
+    const calls = Promise.all([
+      executeStatement('SELECT 42', auth, { dedupe: true }),
+      executeStatement('SELECT 43', auth, { dedupe: true }),
+      executeStatement('SELECT 42', auth),
+    ])
+    api.succeed()
+    await vi.advanceTimersByTimeAsync(500)
+    await calls
+
+    expect(api.submitCount()).toBe(3)
+  })
+
+  it('should start a new statement once the shared one has settled', async () => {
+    const api = createStatementApi()
+    api.succeed()
+    vi.stubGlobal('fetch', api.fetch)
+
+    const first = executeStatement('SELECT 42', auth, { dedupe: true })
+    await vi.advanceTimersByTimeAsync(500)
+    await first
+    const second = executeStatement('SELECT 42', auth, { dedupe: true })
+    await vi.advanceTimersByTimeAsync(500)
+    await second
+
+    expect(api.submitCount()).toBe(2)
+  })
+
+  it('should keep running when only some callers abort', async () => {
+    const api = createStatementApi()
+    vi.stubGlobal('fetch', api.fetch)
+    const controller = new AbortController()
+
+    const aborted = executeStatement('SELECT 42', auth, { dedupe: true, signal: controller.signal })
+    const remaining = executeStatement('SELECT 42', auth, { dedupe: true })
+    const abortedResult = expect(aborted).rejects.toThrow(AbortError)
+    await vi.advanceTimersByTimeAsync(0)
+    controller.abort()
+    await abortedResult
+
+    api.succeed()
+    await vi.advanceTimersByTimeAsync(5000)
+
+    await expect(remaining).resolves.toEqual(mockSucceededAfterPolling)
+    expect(api.cancelCount()).toBe(0)
+  })
+
+  it('should cancel the statement once every caller has aborted', async () => {
+    const api = createStatementApi()
+    vi.stubGlobal('fetch', api.fetch)
+    const first = new AbortController()
+    const second = new AbortController()
+
+    const calls = [
+      expect(executeStatement('SELECT 42', auth, { dedupe: true, signal: first.signal })).rejects.toThrow(AbortError),
+      expect(executeStatement('SELECT 42', auth, { dedupe: true, signal: second.signal })).rejects.toThrow(AbortError),
+    ]
+    await vi.advanceTimersByTimeAsync(0)
+    first.abort()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(api.cancelCount()).toBe(0)
+    second.abort()
+    await Promise.all(calls)
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(api.cancelCount()).toBe(1)
+  })
+
+  it('should apply each caller\'s own timeout', async () => {
+    const api = createStatementApi()
+    vi.stubGlobal('fetch', api.fetch)
+
+    const timedOut = executeStatement('SELECT 42', auth, { dedupe: true, timeoutMs: 1000 })
+    const patient = executeStatement('SELECT 42', auth, { dedupe: true })
+    const timedOutResult = expect(timedOut).rejects.toThrow(StatementTimeoutError)
+    await vi.advanceTimersByTimeAsync(1000)
+    await timedOutResult
+
+    api.succeed()
+    await vi.advanceTimersByTimeAsync(5000)
+
+    await expect(patient).resolves.toEqual(mockSucceededAfterPolling)
+    expect(api.cancelCount()).toBe(0)
+  })
+
+  it('should report progress to every waiting caller', async () => {
+    const api = createStatementApi()
+    vi.stubGlobal('fetch', api.fetch)
+    const firstProgress = vi.fn()
+    const secondProgress = vi.fn()
+
+    const calls = Promise.all([
+      executeStatement('SELECT 42', auth, { dedupe: true }),
+      executeStatement('SELECT 42', auth, { dedupe: true, onProgress: firstProgress }),
+      executeStatement('SELECT 42', auth, { dedupe: true, onProgress: secondProgress }),
+    ])
+    api.succeed()
+    await vi.advanceTimersByTimeAsync(500)
+    await calls
+
+    const succeeded = expect.objectContaining({ status: { state: 'SUCCEEDED' } })
+    expect(firstProgress).toHaveBeenCalledWith(succeeded, undefined)
+    expect(secondProgress).toHaveBeenCalledWith(succeeded, undefined)
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { executeScript } from '../src/api'
+import { AbortError, ScriptExecutionError } from '../src/errors.js'
+import { mockAuth, mockFailedResult, mockInlineResult } from './mocks.js'
+import { jsonResponse } from './testUtil.js'
+
+function submittedStatements(mockFetch: ReturnType<typeof vi.fn>): string[] {
+  return mockFetch.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string).statement)
+}
+
+describe('executeScript', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should execute statements in order and return per-statement results', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(mockInlineResult))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const result = await executeScript('CREATE TABLE t (id INT);\nINSERT INTO t VALUES (1);\nSELECT * FROM t;', mockAuth, {
+      catalog: 'main',
+    })
+
+    expect(submittedStatements(mockFetch)).toEqual([
+      'CREATE TABLE t (id INT)',
+      'INSERT INTO t VALUES (1)',
+      'SELECT * FROM t',
+    ])
+    expect(result.failedCount).toBe(0)
+    expect(result.statements.map(({ index, statement }) => [index, statement])).toEqual([
+      [0, 'CREATE TABLE t (id INT)'],
+      [1, 'INSERT INTO t VALUES (1)'],
+      [2, 'SELECT * FROM t'],
+    ])
+    expect(result.statements.every((entry) => entry.result !== undefined && entry.durationMs >= 0)).toBe(true)
+    expect(result.durationMs).toBeGreaterThanOrEqual(0)
+    expect(mockFetch.mock.calls[0]![1].body).toContain('"catalog":"main"')
+  })
+
+  it('should stop on the first failure with the failing statement index', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(mockInlineResult))
+      .mockResolvedValueOnce(jsonResponse(mockFailedResult))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const error = await executeScript('SELECT 1; SELEC 2; SELECT 3', mockAuth).catch((err: unknown) => err)
+
+    expect(error).toBeInstanceOf(ScriptExecutionError)
+    expect(error).toMatchObject({
+      statementIndex: 1,
+      statement: 'SELEC 2',
+      code: 'SYNTAX_ERROR',
+      statementId: mockFailedResult.statement_id,
+      message: 'Statement 2 of script failed: Syntax error in SQL statement',
+    })
+    expect((error as ScriptExecutionError).results).toHaveLength(1)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should continue past failures when configured', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(mockFailedResult))
+      .mockResolvedValueOnce(jsonResponse(mockInlineResult))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const result = await executeScript('SELEC 1; SELECT 2', mockAuth, { continueOnError: true })
+
+    expect(result.failedCount).toBe(1)
+    expect(result.statements[0]!.error?.message).toBe('Syntax error in SQL statement')
+    expect(result.statements[0]!.result).toBeUndefined()
+    expect(result.statements[1]!.result?.status.state).toBe('SUCCEEDED')
+  })
+
+  it('should stop on abort even with continueOnError', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(mockInlineResult))
+    vi.stubGlobal('fetch', mockFetch)
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      executeScript('SELECT 1; SELECT 2', mockAuth, { signal: controller.signal, continueOnError: true })
+    ).rejects.toBeInstanceOf(AbortError)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
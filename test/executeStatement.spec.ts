@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { executeStatement } from '../src/api'
+import { AbortError, DatabricksSqlError, StatementTimeoutError } from '../src/errors.js'
 import {
   mockAuth,
   mockInlineResult,
@@ -54,9 +55,9 @@ describe('executeStatement', () => {
 
     const resultPromise = executeStatement('SELECT 42', mockAuth)
 
-    // Advance timers for polling delays (fixed 5000ms interval)
-    await vi.advanceTimersByTimeAsync(5000) // First poll delay
-    await vi.advanceTimersByTimeAsync(5000) // Second poll delay
+    // Advance timers for polling delays (500ms, then 1000ms by default)
+    await vi.advanceTimersByTimeAsync(500) // First poll delay
+    await vi.advanceTimersByTimeAsync(1000) // Second poll delay
 
     const result = await resultPromise
 
@@ -299,4 +300,214 @@ describe('executeStatement', () => {
       })
     )
   })
+
+  it('should back off polling exponentially up to the cap', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPendingResult) })
+      .mockResolvedValue({ ok: true, json: () => Promise.resolve(mockRunningResult) })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const controller = new AbortController()
+    const resultPromise = executeStatement('SELECT 42', mockAuth, {
+      signal: controller.signal,
+      polling: { initialIntervalMs: 100, backoffMultiplier: 3, maxIntervalMs: 500 },
+    })
+    const rejection = expect(resultPromise).rejects.toThrow('Aborted')
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(100) // 100ms
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(300) // 300ms
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+    await vi.advanceTimersByTimeAsync(499) // capped at 500ms
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(mockFetch).toHaveBeenCalledTimes(4)
+    await vi.advanceTimersByTimeAsync(500)
+    expect(mockFetch).toHaveBeenCalledTimes(5)
+
+    controller.abort()
+    await rejection
+  })
+
+  it.each([
+    [{}, 10_000],
+    [{ maxIntervalMs: 3000 }, 3000],
+  ])('should cap custom polling intervals only by an explicit maxIntervalMs %o', async (polling, expectedMs) => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPendingResult) })
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockSucceededAfterPolling) })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const resultPromise = executeStatement('SELECT 42', mockAuth, {
+      polling: { ...polling, getIntervalMs: () => 10_000 },
+    })
+    await vi.advanceTimersByTimeAsync(expectedMs - 1)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    await resultPromise
+  })
+
+  it('should use a custom polling interval function', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPendingResult) })
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockRunningResult) })
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockSucceededAfterPolling) })
+    vi.stubGlobal('fetch', mockFetch)
+    const getIntervalMs = vi.fn().mockReturnValue(2000)
+
+    const resultPromise = executeStatement('SELECT 42', mockAuth, {
+      polling: { getIntervalMs },
+    })
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(2000)
+
+    const result = await resultPromise
+
+    expect(result.status.state).toBe('SUCCEEDED')
+    expect(getIntervalMs).toHaveBeenNthCalledWith(1, { attempt: 1, elapsedMs: 0, state: 'PENDING' })
+    expect(getIntervalMs).toHaveBeenNthCalledWith(2, { attempt: 2, elapsedMs: 2000, state: 'RUNNING' })
+  })
+
+  it('should cancel and throw StatementTimeoutError when timeoutMs is exceeded', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPendingResult) })
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockRunningResult) })
+      .mockResolvedValue({ ok: true, json: () => Promise.resolve({}) })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const resultPromise = executeStatement('SELECT 42', mockAuth, {
+      timeoutMs: 1000,
+      polling: { initialIntervalMs: 600, backoffMultiplier: 1 },
+    })
+    const rejection = resultPromise.catch((err: unknown) => err)
+    await vi.advanceTimersByTimeAsync(1000)
+    const error = await rejection
+
+    expect(error).toBeInstanceOf(StatementTimeoutError)
+    expect(error).toBeInstanceOf(DatabricksSqlError)
+    expect(error).toMatchObject({
+      code: 'TIMEOUT',
+      statementId: mockPendingResult.statement_id,
+      elapsedMs: 1000,
+    })
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining(`/api/2.0/sql/statements/${mockPendingResult.statement_id}/cancel`),
+      expect.objectContaining({ method: 'POST' })
+    )
+  })
+
+  it('should combine the caller signal with the timeout without AbortSignal.any', async () => {
+    // AbortSignal.any only exists from Node 20.3.
+    vi.spyOn(AbortSignal, 'any').mockImplementation(() => {
+      throw new TypeError('AbortSignal.any is not a function')
+    })
+    const mockFetch = vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve(mockInlineResult) })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const result = await executeStatement('SELECT 1', mockAuth, {
+      signal: new AbortController().signal,
+      timeoutMs: 60_000,
+    })
+
+    expect(result.status.state).toBe('SUCCEEDED')
+  })
+
+  it('should still throw AbortError when the caller aborts before the timeout', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockPendingResult) })
+      .mockResolvedValue({ ok: true, json: () => Promise.resolve({}) })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const controller = new AbortController()
+    const resultPromise = executeStatement('SELECT 42', mockAuth, {
+      signal: controller.signal,
+      timeoutMs: 60_000,
+    })
+    const rejection = resultPromise.catch((err: unknown) => err)
+    await vi.advanceTimersByTimeAsync(0)
+    controller.abort()
+    const error = await rejection
+
+    expect(error).toBeInstanceOf(AbortError)
+    expect(error).not.toBeInstanceOf(StatementTimeoutError)
+  })
+
+  it('should cancel a statement whose submit outlives timeoutMs', async () => {
+    const mockFetch = vi.fn().mockImplementation((url: string) => {
+      if (url.endsWith('/api/2.0/sql/statements'))
+        // The server holds the submit past the deadline before returning a statement ID.
+        return new Promise((resolve) => setTimeout(() => resolve({
+          ok: true,
+          json: () => Promise.resolve(mockPendingResult),
+        }), 8000))
+      return Promise.resolve({ ok: true, json: () => Promise.resolve({}) })
+    })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const resultPromise = executeStatement('SELECT 42', mockAuth, { timeoutMs: 5000 })
+    const rejection = resultPromise.catch((err: unknown) => err)
+    await vi.advanceTimersByTimeAsync(8000)
+    const error = await rejection
+
+    expect(error).toBeInstanceOf(StatementTimeoutError)
+    expect(error).toMatchObject({ statementId: mockPendingResult.statement_id })
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ body: expect.stringContaining('"wait_timeout":"0s"') })
+    )
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining(`/api/2.0/sql/statements/${mockPendingResult.statement_id}/cancel`),
+      expect.objectContaining({ method: 'POST' })
+    )
+  })
+
+  it('should give up on a submit that never returns shortly after timeoutMs', async () => {
+    const mockFetch = vi.fn().mockReturnValue(new Promise(() => { }))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const resultPromise = executeStatement('SELECT 42', mockAuth, { timeoutMs: 1000 })
+    const rejection = resultPromise.catch((err: unknown) => err)
+    await vi.advanceTimersByTimeAsync(5999)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    const error = await rejection
+
+    expect(error).toBeInstanceOf(StatementTimeoutError)
+    expect(error).toMatchObject({ code: 'TIMEOUT', statementId: undefined, elapsedMs: 6000 })
+  })
+
+  it.each([
+    [10_000, '9s'],
+    [10_500, '10s'],
+    [5000, '0s'],
+    [3000, '0s'],
+    [50_000, '49s'],
+    [120_000, '50s'],
+  ])('should clamp wait_timeout to timeoutMs %i', async (timeoutMs, waitTimeout) => {
+    const mockFetch = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve(mockInlineResult),
+    })
+    vi.stubGlobal('fetch', mockFetch)
+
+    await executeStatement('SELECT 1', mockAuth, { timeoutMs })
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        body: expect.stringContaining(`"wait_timeout":"${waitTimeout}"`),
+      })
+    )
+  })
 })
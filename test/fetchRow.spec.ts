@@ -1,6 +1,8 @@
 import { describe, it, expect, vi, afterEach } from 'vitest'
+import { Int64, Table, tableToIPC, vectorFromArray } from 'apache-arrow'
 import { fetchAll, fetchRow } from '../src/api'
-import type { RowArray, StatementResult } from '../src/types.js'
+import { InvalidParameterError } from '../src/errors.js'
+import type { RowArray, StatementManifest, StatementResult } from '../src/types.js'
 import {
   mockAuth,
   mockInlineResult,
@@ -8,6 +10,7 @@ import {
   mockPendingResult,
 } from './mocks.js'
 import {
+  createEndlessJsonBody,
   createExternalLinkInfo,
   createGetChunkResponse,
   createStreamResponse,
@@ -81,17 +84,17 @@ describe('fetchRow', () => {
     )
   })
 
-  it('should throw error for external_links with non-JSON_ARRAY format', async () => {
-    const csvExternalLinksResult: StatementResult = {
+  it('should throw error for external_links with unsupported format', async () => {
+    const unsupportedResult: StatementResult = {
       ...mockExternalLinksResult,
       manifest: {
         ...mockExternalLinksResult.manifest!,
-        format: 'CSV',
+        format: 'PARQUET' as StatementManifest['format'],
       },
     }
 
-    await expect(fetchRow(csvExternalLinksResult, mockAuth)).rejects.toThrow(
-      'fetchRow only supports JSON_ARRAY for external_links'
+    await expect(fetchRow(unsupportedResult, mockAuth)).rejects.toThrow(
+      'fetchRow only supports JSON_ARRAY, ARROW_STREAM, and CSV for external_links'
     )
   })
 
@@ -148,6 +151,66 @@ describe('fetchRow', () => {
     ])
   })
 
+  it('should decode ARROW_STREAM external links into rows', async () => {
+    const table = new Table({
+      id: vectorFromArray([1n, 3n], new Int64()),
+      doubled: vectorFromArray([2n, 6n], new Int64()),
+    })
+    const arrowResult: StatementResult = {
+      ...mockExternalLinksResult,
+      manifest: { ...mockExternalLinksResult.manifest!, format: 'ARROW_STREAM' },
+    }
+    vi.stubGlobal('fetch', vi.fn().mockImplementation(() =>
+      Promise.resolve(createStreamResponse(tableToIPC(table, 'stream')))))
+
+    await expect(fetchAll(arrowResult, mockAuth)).resolves.toEqual([['1', '2'], ['3', '6']])
+    await expect(fetchAll(arrowResult, mockAuth, { format: 'JSON_OBJECT' })).resolves.toEqual([
+      { id: 1n, doubled: 2n },
+      { id: 3n, doubled: 6n },
+    ])
+  })
+
+  it('should parse CSV external links into rows', async () => {
+    const csvResult: StatementResult = {
+      ...mockExternalLinksResult,
+      manifest: {
+        ...mockExternalLinksResult.manifest!,
+        format: 'CSV',
+        schema: {
+          column_count: 3,
+          columns: [
+            { name: 'id', type_text: 'BIGINT', type_name: 'LONG', position: 0 },
+            { name: 'note', type_text: 'STRING', type_name: 'STRING', position: 1 },
+            { name: 'ok', type_text: 'BOOLEAN', type_name: 'BOOLEAN', position: 2 },
+          ],
+        },
+      },
+    }
+    const csv = 'id,note,ok\r\n1,"a, ""quoted""\nnote",true\r\n2,,false\r\n3,"",\r\n'
+    vi.stubGlobal('fetch', vi.fn().mockImplementation(() => Promise.resolve(createStreamResponse(csv))))
+
+    await expect(fetchAll(csvResult, mockAuth)).resolves.toEqual([
+      ['1', 'a, "quoted"\nnote', 'true'],
+      ['2', null, 'false'],
+      ['3', '', null],
+    ])
+    await expect(fetchAll(csvResult, mockAuth, { format: 'JSON_OBJECT' })).resolves.toEqual([
+      { id: 1n, note: 'a, "quoted"\nnote', ok: true },
+      { id: 2n, note: null, ok: false },
+      { id: 3n, note: '', ok: null },
+    ])
+  })
+
+  it('should reject CSV whose header does not match the result columns', async () => {
+    const csvResult: StatementResult = {
+      ...mockExternalLinksResult,
+      manifest: { ...mockExternalLinksResult.manifest!, format: 'CSV' },
+    }
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(createStreamResponse('id,other\n1,2\n')))
+
+    await expect(fetchAll(csvResult, mockAuth)).rejects.toThrow('CSV header does not match result columns')
+  })
+
   it('should map external links rows with datetime and nested decimals', async () => {
     const bigIntValue = 9007199254740993n
     const complexExternalLinksResult: StatementResult = {
@@ -608,17 +671,103 @@ describe('fetchAll', () => {
     ).rejects.toThrow('Aborted')
   })
 
-  it('should throw error for external_links result', async () => {
-    const csvExternalLinksResult: StatementResult = {
+  it('should throw error for external_links with unsupported format', async () => {
+    const unsupportedResult: StatementResult = {
       ...mockExternalLinksResult,
       manifest: {
         ...mockExternalLinksResult.manifest!,
-        format: 'CSV',
+        format: 'PARQUET' as StatementManifest['format'],
       },
     }
 
-    await expect(fetchAll(csvExternalLinksResult, mockAuth)).rejects.toThrow(
-      'fetchRow only supports JSON_ARRAY for external_links'
+    await expect(fetchAll(unsupportedResult, mockAuth)).rejects.toThrow(
+      'fetchRow only supports JSON_ARRAY, ARROW_STREAM, and CSV for external_links'
     )
   })
 })
+
+describe('fetchRow with async onEachRow', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  const manyRowsResult: StatementResult = {
+    statement_id: 'many-rows',
+    status: { state: 'SUCCEEDED' },
+    manifest: {
+      format: 'JSON_ARRAY',
+      schema: { column_count: 1, columns: [] },
+      total_chunk_count: 1,
+      total_row_count: 10,
+    },
+    result: { data_array: Array.from({ length: 10 }, (_, i) => [`${i}`]) },
+  }
+
+  it('should await each callback before reading the next row', async () => {
+    const events: string[] = []
+
+    await fetchRow(manyRowsResult, mockAuth, {
+      onEachRow: async (row) => {
+        events.push(`start ${String((row as string[])[0])}`)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        events.push(`end ${String((row as string[])[0])}`)
+      },
+    })
+
+    expect(events.slice(0, 4)).toEqual(['start 0', 'end 0', 'start 1', 'end 1'])
+    expect(events).toHaveLength(20)
+  })
+
+  it('should keep at most rowConcurrency callbacks pending', async () => {
+    let active = 0
+    let peak = 0
+    const seen: string[] = []
+
+    await fetchRow(manyRowsResult, mockAuth, {
+      rowConcurrency: 3,
+      onEachRow: async (row) => {
+        active++
+        peak = Math.max(peak, active)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        seen.push(String((row as string[])[0]))
+        active--
+      },
+    })
+
+    expect(peak).toBe(3)
+    expect(seen.sort()).toEqual(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'])
+  })
+
+  it('should reject with the callback error after pending callbacks settle', async () => {
+    let settled = 0
+    const onEachRow = vi.fn(async (row: unknown) => {
+      await new Promise((resolve) => setTimeout(resolve, 1))
+      settled++
+      if ((row as string[])[0] === '1')
+        throw new Error('write failed')
+    })
+
+    await expect(fetchRow(manyRowsResult, mockAuth, { rowConcurrency: 2, onEachRow }))
+      .rejects.toThrow('write failed')
+
+    // No new rows are started after the failure, and none are left running.
+    expect(onEachRow.mock.calls.length).toBeLessThanOrEqual(3)
+    expect(settled).toBe(onEachRow.mock.calls.length)
+  })
+
+  it('should stop the download when a callback rejects', async () => {
+    const { body, state } = createEndlessJsonBody()
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, body }))
+
+    await expect(fetchRow(mockExternalLinksResult, mockAuth, {
+      onEachRow: async () => { throw new Error('write failed') },
+    })).rejects.toThrow('write failed')
+
+    await vi.waitFor(() => expect(state.cancelled).toBe(true))
+  })
+
+  it('should reject an invalid rowConcurrency', async () => {
+    await expect(fetchRow(mockInlineResult, mockAuth, { rowConcurrency: 0 }))
+      .rejects.toThrow(InvalidParameterError)
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { fetchRows } from '../src/api'
+import { DatabricksSqlClient } from '../src/client.js'
+import type { StatementResult } from '../src/types.js'
+import { mockAuth, mockExternalLinkData, mockExternalLinksResult, mockInlineResult } from './mocks.js'
+import { createEndlessJsonBody, createGetChunkResponse, createStreamResponse } from './testUtil.js'
+
+const chunkedResult: StatementResult = {
+  statement_id: 'chunked',
+  status: { state: 'SUCCEEDED' },
+  manifest: {
+    format: 'JSON_ARRAY',
+    schema: { column_count: 1, columns: [{ name: 'n', type_text: 'INT', type_name: 'INT', position: 0 }] },
+    total_chunk_count: 2,
+    total_row_count: 4,
+  },
+  result: { data_array: [['1'], ['2']] },
+}
+
+describe('fetchRows', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should yield mapped rows', async () => {
+    const rows = []
+    for await (const row of fetchRows(mockInlineResult, mockAuth, { format: 'JSON_OBJECT' }))
+      rows.push(row)
+
+    expect(rows).toEqual([{ num: 1, str: 'hello' }])
+  })
+
+  it('should fetch the next chunk only when the consumer reaches it', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ chunk_index: 1, data_array: [['3'], ['4']] }),
+    })
+    vi.stubGlobal('fetch', mockFetch)
+
+    const iterator = fetchRows(chunkedResult, mockAuth)
+    expect(await iterator.next()).toEqual({ done: false, value: ['1'] })
+    expect(await iterator.next()).toEqual({ done: false, value: ['2'] })
+    expect(mockFetch).not.toHaveBeenCalled()
+
+    expect(await iterator.next()).toEqual({ done: false, value: ['3'] })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    await iterator.return()
+  })
+
+  it('should stream external links with a signal without AbortSignal.any', async () => {
+    // AbortSignal.any only exists from Node 20.3.
+    vi.spyOn(AbortSignal, 'any').mockImplementation(() => {
+      throw new TypeError('AbortSignal.any is not a function')
+    })
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(createStreamResponse(JSON.stringify(mockExternalLinkData))))
+
+    const rows = []
+    for await (const row of fetchRows(mockExternalLinksResult, mockAuth, { signal: new AbortController().signal }))
+      rows.push(row)
+
+    expect(rows).toEqual(mockExternalLinkData)
+  })
+
+  it('should not fetch further chunks after break', async () => {
+    const mockFetch = vi.fn()
+    vi.stubGlobal('fetch', mockFetch)
+
+    for await (const row of fetchRows(chunkedResult, mockAuth)) {
+      expect(row).toEqual(['1'])
+      break
+    }
+
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should apply backpressure and stop the download on break', async () => {
+    const { body, state } = createEndlessJsonBody()
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, body }))
+
+    const rows = []
+    for await (const row of fetchRows(mockExternalLinksResult, mockAuth)) {
+      rows.push(row)
+      if (rows.length === 3)
+        break
+    }
+
+    expect(rows).toEqual([['0', '0'], ['1', '2'], ['2', '4']])
+    await vi.waitFor(() => expect(state.cancelled).toBe(true))
+    // Only buffered data was read, not the endless body.
+    expect(state.pulls).toBeLessThan(10_000)
+  })
+
+  it('should stop the download when the consumer throws', async () => {
+    const { body, state } = createEndlessJsonBody()
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, body }))
+
+    await expect((async () => {
+      for await (const _row of fetchRows(mockExternalLinksResult, mockAuth))
+        throw new Error('consumer failed')
+    })()).rejects.toThrow('consumer failed')
+
+    await vi.waitFor(() => expect(state.cancelled).toBe(true))
+  })
+
+  it('should surface download errors to the iterator', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 403, statusText: 'Forbidden' }))
+
+    await expect((async () => {
+      for await (const _row of fetchRows(mockExternalLinksResult, mockAuth)) { /* drain */ }
+    })()).rejects.toThrow('Failed to fetch external link: 403 Forbidden')
+  })
+
+  it('should stop when the signal aborts mid-iteration', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(createGetChunkResponse([]))
+    vi.stubGlobal('fetch', mockFetch)
+    const controller = new AbortController()
+
+    const iterator = fetchRows(chunkedResult, mockAuth, { signal: controller.signal })
+    await iterator.next()
+    controller.abort()
+
+    await expect(iterator.next()).rejects.toThrow('Aborted')
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+})
+
+describe('DatabricksSqlClient.rows', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should execute and iterate rows with client defaults', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve(mockInlineResult),
+    }))
+    const client = new DatabricksSqlClient(mockAuth, { rowFormat: 'JSON_OBJECT' })
+
+    const rows = []
+    for await (const row of client.rows('SELECT 1'))
+      rows.push(row)
+
+    expect(rows).toEqual([{ num: 1, str: 'hello' }])
+  })
+})
@@ -216,8 +216,60 @@ describe('fetchStream', () => {
     const stream = fetchStream(resultWithChunks, mockAuth)
     const data = await collectStream(stream)
 
-    // merge-streams merges JSON arrays
+    // Links are joined into one JSON array
     expect(data.toString()).toContain('"a"')
     expect(data.toString()).toContain('d')
   })
+
+  it('should download external links through the injected fetch', async () => {
+    const globalFetch = vi.fn()
+    vi.stubGlobal('fetch', globalFetch)
+    const customFetch = vi.fn().mockResolvedValueOnce(
+      createStreamResponse(JSON.stringify(mockExternalLinkData))
+    )
+
+    const stream = fetchStream(mockExternalLinksResult, mockAuth, { fetch: customFetch })
+    const data = await collectStream(stream)
+
+    expect(JSON.parse(data.toString())).toEqual(mockExternalLinkData)
+    expect(customFetch).toHaveBeenCalledWith(
+      mockExternalLinksResult.result?.external_links?.[0]?.external_link,
+      {}
+    )
+    expect(globalFetch).not.toHaveBeenCalled()
+  })
+
+  it('should download every external link through the injected fetch', async () => {
+    const globalFetch = vi.fn()
+    vi.stubGlobal('fetch', globalFetch)
+    const links = [0, 1, 2].map((chunk_index) => createExternalLinkInfo({
+      chunk_index,
+      row_offset: chunk_index * 2,
+      row_count: 2,
+      external_link: `https://mock/chunk${chunk_index}.json`,
+    }))
+    const multiLinkResult: StatementResult = {
+      statement_id: 'custom-fetch-multi-link',
+      status: { state: 'SUCCEEDED' },
+      manifest: {
+        format: 'JSON_ARRAY',
+        schema: { column_count: 1, columns: [] },
+        total_chunk_count: 3,
+        total_row_count: 6,
+      },
+      result: { external_links: links },
+    }
+    const customFetch = vi.fn()
+      .mockResolvedValueOnce(createStreamResponse('[["a"],["b"]]'))
+      .mockResolvedValueOnce(createStreamResponse('[["c"],["d"]]'))
+      .mockResolvedValueOnce(createStreamResponse('[["e"],["f"]]'))
+    const dispatcher = { name: 'proxy' }
+
+    const stream = fetchStream(multiLinkResult, mockAuth, { fetch: customFetch, dispatcher })
+    const data = await collectStream(stream)
+
+    expect(JSON.parse(data.toString())).toEqual([['a'], ['b'], ['c'], ['d'], ['e'], ['f']])
+    expect(customFetch.mock.calls).toEqual(links.map((link) => [link.external_link, { dispatcher }]))
+    expect(globalFetch).not.toHaveBeenCalled()
+  })
 })
@@ -0,0 +1,340 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { httpRequest } from '../src/http.js'
+import { HttpError, RateLimitError } from '../src/errors.js'
+import { executeStatement } from '../src/api'
+import {
+  mockAuth,
+  mockInlineResult,
+  mockPendingResult,
+  mockSucceededAfterPolling,
+} from './mocks.js'
+
+function createErrorResponse(status: number, headers: Record<string, string> = {}) {
+  return {
+    ok: false,
+    status,
+    statusText: `Status ${status}`,
+    headers: new Headers(headers),
+    text: () => Promise.resolve(`error ${status}`),
+  }
+}
+
+function createOkResponse(body: unknown = { ok: true }) {
+  return {
+    ok: true,
+    status: 200,
+    json: () => Promise.resolve(body),
+  }
+}
+
+function createNetworkError(code?: string): TypeError {
+  return new TypeError('fetch failed', code ? { cause: { code } } : undefined)
+}
+
+describe('httpRequest retry policy', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should retry server errors with exponential backoff', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(createErrorResponse(503))
+      .mockResolvedValueOnce(createErrorResponse(502))
+      .mockResolvedValueOnce(createOkResponse())
+    vi.stubGlobal('fetch', mockFetch)
+
+    const promise = httpRequest(mockAuth, {
+      operation: 'getStatement',
+      method: 'GET',
+      path: '/test',
+      retry: { jitter: 0, initialDelayMs: 100 },
+    })
+
+    await vi.advanceTimersByTimeAsync(99)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(200)
+
+    await expect(promise).resolves.toEqual({ ok: true })
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('should retry 429 without Retry-After using backoff', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(createErrorResponse(429))
+      .mockResolvedValueOnce(createOkResponse())
+    vi.stubGlobal('fetch', mockFetch)
+
+    const promise = httpRequest(mockAuth, {
+      operation: 'getStatement',
+      method: 'GET',
+      path: '/test',
+      retry: { jitter: 0, initialDelayMs: 250 },
+    })
+    await vi.advanceTimersByTimeAsync(250)
+
+    await expect(promise).resolves.toEqual({ ok: true })
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should honor Retry-After for 429 responses', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(createErrorResponse(429, { 'Retry-After': '3' }))
+      .mockResolvedValueOnce(createOkResponse())
+    vi.stubGlobal('fetch', mockFetch)
+
+    const promise = httpRequest(mockAuth, {
+      operation: 'getStatement',
+      method: 'GET',
+      path: '/test',
+      retry: { jitter: 0, initialDelayMs: 10 },
+    })
+
+    await vi.advanceTimersByTimeAsync(2999)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+
+    await expect(promise).resolves.toEqual({ ok: true })
+  })
+
+  it('should stop after maxAttempts and throw the last error', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(createErrorResponse(429))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const promise = httpRequest(mockAuth, {
+      operation: 'getStatement',
+      method: 'GET',
+      path: '/test',
+      retry: { maxAttempts: 2, jitter: 0, initialDelayMs: 10 },
+    })
+    const assertion = expect(promise).rejects.toThrow(RateLimitError)
+    await vi.advanceTimersByTimeAsync(10)
+
+    await assertion
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should cap backoff delays at maxDelayMs', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(createErrorResponse(500))
+      .mockResolvedValueOnce(createErrorResponse(500))
+      .mockResolvedValueOnce(createOkResponse())
+    vi.stubGlobal('fetch', mockFetch)
+
+    const promise = httpRequest(mockAuth, {
+      operation: 'getStatement',
+      method: 'GET',
+      path: '/test',
+      retry: { jitter: 0, initialDelayMs: 100, backoffMultiplier: 10, maxDelayMs: 150 },
+    })
+    await vi.advanceTimersByTimeAsync(100)
+    await vi.advanceTimersByTimeAsync(150)
+
+    await expect(promise).resolves.toEqual({ ok: true })
+  })
+
+  it('should only retry configured status codes', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(createErrorResponse(503))
+    vi.stubGlobal('fetch', mockFetch)
+
+    await expect(httpRequest(mockAuth, {
+      operation: 'getStatement',
+      method: 'GET',
+      path: '/test',
+      retry: { retryableStatusCodes: [500] },
+    })).rejects.toThrow(HttpError)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not retry client errors', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(createErrorResponse(400))
+    vi.stubGlobal('fetch', mockFetch)
+
+    await expect(httpRequest(mockAuth, { operation: 'getStatement', method: 'GET', path: '/test' })).rejects.toThrow('error 400')
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should retry network errors whose code is retryable', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockRejectedValueOnce(createNetworkError('ECONNRESET'))
+      .mockResolvedValueOnce(createOkResponse())
+    vi.stubGlobal('fetch', mockFetch)
+
+    const promise = httpRequest(mockAuth, {
+      operation: 'getStatement',
+      method: 'GET',
+      path: '/test',
+      retry: { jitter: 0, initialDelayMs: 10 },
+    })
+    await vi.advanceTimersByTimeAsync(10)
+
+    await expect(promise).resolves.toEqual({ ok: true })
+  })
+
+  it('should not retry network errors whose code is not retryable', async () => {
+    const mockFetch = vi.fn().mockRejectedValue(createNetworkError('ENOTFOUND'))
+    vi.stubGlobal('fetch', mockFetch)
+
+    await expect(httpRequest(mockAuth, { operation: 'getStatement', method: 'GET', path: '/test' })).rejects.toThrow('fetch failed')
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should let shouldRetry veto a retry', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(createErrorResponse(503))
+    vi.stubGlobal('fetch', mockFetch)
+    const shouldRetry = vi.fn().mockReturnValue(false)
+
+    await expect(httpRequest(mockAuth, {
+      operation: 'postStatement',
+      method: 'POST',
+      path: '/test',
+      retry: { shouldRetry, jitter: 0 },
+    })).rejects.toThrow(HttpError)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(shouldRetry).toHaveBeenCalledWith({
+      attempt: 1,
+      error: expect.any(HttpError),
+      delayMs: 1000,
+      method: 'POST',
+      path: '/test',
+    })
+  })
+})
+
+describe('httpRequest transport injection', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should use the injected fetch instead of the global one', async () => {
+    const globalFetch = vi.fn()
+    vi.stubGlobal('fetch', globalFetch)
+    const customFetch = vi.fn().mockResolvedValue(createOkResponse({ injected: true }))
+
+    await expect(
+      httpRequest(mockAuth, { operation: 'getStatement', method: 'GET', path: '/test', fetch: customFetch })
+    ).resolves.toEqual({ injected: true })
+    expect(customFetch).toHaveBeenCalledWith(
+      'https://test.cloud.databricks.com/test',
+      expect.objectContaining({ method: 'GET' })
+    )
+    expect(globalFetch).not.toHaveBeenCalled()
+  })
+
+  it('should pass the dispatcher to fetch', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(createOkResponse())
+    vi.stubGlobal('fetch', mockFetch)
+    const dispatcher = { name: 'proxy-agent' } as unknown as RequestInit['dispatcher']
+
+    await httpRequest(mockAuth, { operation: 'getStatement', method: 'GET', path: '/test', dispatcher })
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({ dispatcher })
+    )
+  })
+})
+
+describe('httpRequest hooks', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should call onRequest and onResponse for every API call', async () => {
+    vi.useFakeTimers()
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(createOkResponse(mockPendingResult))
+      .mockResolvedValueOnce(createOkResponse(mockSucceededAfterPolling))
+    vi.stubGlobal('fetch', mockFetch)
+    const onRequest = vi.fn()
+    const onResponse = vi.fn()
+
+    const promise = executeStatement('SELECT 42', mockAuth, { hooks: { onRequest, onResponse } })
+    await vi.advanceTimersByTimeAsync(5000)
+    await promise
+
+    expect(onRequest.mock.calls.map(([context]) => context.operation)).toEqual(['postStatement', 'getStatement'])
+    expect(onRequest).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      method: 'POST',
+      url: 'https://test.cloud.databricks.com/api/2.0/sql/statements',
+      body: expect.objectContaining({ statement: 'SELECT 42' }),
+      attempt: 1,
+    }))
+    expect(onResponse).toHaveBeenCalledTimes(2)
+    expect(onResponse).toHaveBeenLastCalledWith(expect.objectContaining({
+      operation: 'getStatement',
+      status: 200,
+      durationMs: expect.any(Number),
+    }))
+  })
+
+  it('should send headers added by onRequest', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(createOkResponse(mockInlineResult))
+    vi.stubGlobal('fetch', mockFetch)
+
+    await executeStatement('SELECT 1', mockAuth, {
+      hooks: {
+        onRequest: (context) => {
+          context.headers['User-Agent'] = 'report-service/1.0'
+        },
+      },
+    })
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'User-Agent': 'report-service/1.0',
+          Authorization: 'Bearer test-token',
+        }),
+      })
+    )
+  })
+
+  it('should call onError for each failed attempt', async () => {
+    vi.useFakeTimers()
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(createErrorResponse(503))
+      .mockRejectedValueOnce(createNetworkError('ECONNRESET'))
+      .mockResolvedValueOnce(createOkResponse())
+    vi.stubGlobal('fetch', mockFetch)
+    const onError = vi.fn()
+
+    const promise = httpRequest(mockAuth, {
+      operation: 'getChunk',
+      method: 'GET',
+      path: '/test',
+      retry: { jitter: 0, initialDelayMs: 10 },
+      hooks: { onError },
+    })
+    await vi.advanceTimersByTimeAsync(30)
+    await promise
+
+    expect(onError).toHaveBeenCalledTimes(2)
+    expect(onError).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      operation: 'getChunk',
+      status: 503,
+      attempt: 1,
+      error: expect.any(HttpError),
+    }))
+    expect(onError).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      attempt: 2,
+      error: expect.any(TypeError),
+    }))
+    expect(onError.mock.calls[1]?.[0]).not.toHaveProperty('status')
+  })
+})
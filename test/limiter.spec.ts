@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createConcurrencyLimiter } from '../src/limiter.js'
+import { DatabricksSqlClient } from '../src/client.js'
+import { AbortError, ConfigurationError, QueueTimeoutError } from '../src/errors.js'
+import { mockAuth, mockInlineResult } from './mocks.js'
+
+function deferred() {
+  let resolve!: () => void
+  const promise = new Promise<void>((r) => { resolve = r })
+  return { promise, resolve }
+}
+
+describe('createConcurrencyLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should reject invalid limits', () => {
+    expect(() => createConcurrencyLimiter({ maxConcurrent: 0 })).toThrow(ConfigurationError)
+    expect(() => createConcurrencyLimiter({ maxConcurrent: 1, maxConcurrentByWarehouse: { w: 1.5 } }))
+      .toThrow(ConfigurationError)
+  })
+
+  it('should limit concurrent tasks per warehouse', async () => {
+    const limiter = createConcurrencyLimiter({ maxConcurrent: 2 })
+    const gate = deferred()
+    let running = 0
+    let peak = 0
+    const task = async () => {
+      running++
+      peak = Math.max(peak, running)
+      await gate.promise
+      running--
+    }
+
+    const tasks = [1, 2, 3, 4].map(() => limiter.run('w1', task))
+    const other = limiter.run('w2', task)
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(limiter.getStats()).toEqual([
+      expect.objectContaining({ warehouseId: 'w1', running: 2, queued: 2 }),
+      expect.objectContaining({ warehouseId: 'w2', running: 1, queued: 0 }),
+    ])
+    gate.resolve()
+    await Promise.all([...tasks, other])
+    expect(peak).toBe(3)
+    expect(limiter.getStats()[0]).toEqual(expect.objectContaining({ running: 0, queued: 0, startedCount: 4 }))
+  })
+
+  it('should apply per-warehouse limits', async () => {
+    const limiter = createConcurrencyLimiter({ maxConcurrent: 1, maxConcurrentByWarehouse: { big: 3 } })
+    const gate = deferred()
+
+    const tasks = [1, 2, 3].map(() => limiter.run('big', () => gate.promise))
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(limiter.getStats()[0]).toEqual(expect.objectContaining({ maxConcurrent: 3, running: 3, queued: 0 }))
+    gate.resolve()
+    await Promise.all(tasks)
+  })
+
+  it('should start queued tasks by priority, then in arrival order', async () => {
+    const limiter = createConcurrencyLimiter({ maxConcurrent: 1 })
+    const gate = deferred()
+    const order: string[] = []
+    const record = (name: string) => async () => { order.push(name) }
+
+    const blocker = limiter.run('w', () => gate.promise)
+    const tasks = [
+      limiter.run('w', record('low'), { priority: -1 }),
+      limiter.run('w', record('first')),
+      limiter.run('w', record('urgent'), { priority: 10 }),
+      limiter.run('w', record('second')),
+    ]
+    gate.resolve()
+    await Promise.all([blocker, ...tasks])
+
+    expect(order).toEqual(['urgent', 'first', 'second', 'low'])
+  })
+
+  it('should time out tasks that wait too long and record wait times', async () => {
+    const limiter = createConcurrencyLimiter({ maxConcurrent: 1, queueTimeoutMs: 1000 })
+    const gate = deferred()
+    const blocker = limiter.run('w', () => gate.promise)
+    const task = vi.fn().mockResolvedValue('done')
+
+    const timedOut = expect(limiter.run('w', task)).rejects.toThrow(QueueTimeoutError)
+    const patient = limiter.run('w', task, { queueTimeoutMs: 5000 })
+    await vi.advanceTimersByTimeAsync(500)
+    expect(limiter.getStats()[0]).toEqual(expect.objectContaining({ queued: 2, oldestQueuedMs: 500 }))
+    await vi.advanceTimersByTimeAsync(500)
+    await timedOut
+
+    await vi.advanceTimersByTimeAsync(1000)
+    gate.resolve()
+    await blocker
+    await expect(patient).resolves.toBe('done')
+
+    expect(task).toHaveBeenCalledTimes(1)
+    expect(limiter.getStats()[0]).toEqual(expect.objectContaining({
+      queued: 0,
+      startedCount: 2,
+      averageWaitMs: 1000,
+      maxWaitMs: 2000,
+    }))
+  })
+
+  it('should leave the queue when aborted', async () => {
+    const limiter = createConcurrencyLimiter({ maxConcurrent: 1 })
+    const gate = deferred()
+    const blocker = limiter.run('w', () => gate.promise)
+    const controller = new AbortController()
+    const task = vi.fn().mockResolvedValue(undefined)
+
+    const aborted = expect(limiter.run('w', task, { signal: controller.signal })).rejects.toThrow(AbortError)
+    controller.abort()
+    await aborted
+
+    expect(limiter.getStats()[0]).toEqual(expect.objectContaining({ queued: 0 }))
+    gate.resolve()
+    await blocker
+    expect(task).not.toHaveBeenCalled()
+  })
+
+  it('should release the slot when a task fails', async () => {
+    const limiter = createConcurrencyLimiter({ maxConcurrent: 1 })
+
+    await expect(limiter.run('w', () => Promise.reject(new Error('boom')))).rejects.toThrow('boom')
+    await expect(limiter.run('w', () => Promise.resolve('ok'))).resolves.toBe('ok')
+  })
+})
+
+describe('DatabricksSqlClient with concurrency', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should run statements through the limiter of the auth warehouse', async () => {
+    let inFlight = 0
+    let peak = 0
+    const mockFetch = vi.fn(async () => {
+      inFlight++
+      peak = Math.max(peak, inFlight)
+      await new Promise((resolve) => setTimeout(resolve, 10))
+      inFlight--
+      return { ok: true, status: 200, json: () => Promise.resolve(mockInlineResult) }
+    })
+    vi.stubGlobal('fetch', mockFetch)
+    const client = new DatabricksSqlClient(mockAuth, { concurrency: { maxConcurrent: 2 } })
+
+    await Promise.all([1, 2, 3, 4, 5].map((n) => client.execute(`SELECT ${n}`, { priority: n })))
+
+    expect(peak).toBe(2)
+    expect(client.getQueueStats()).toEqual([
+      expect.objectContaining({ warehouseId: 'abc123def456', startedCount: 5, running: 0 }),
+    ])
+  })
+
+  it('should share a limiter passed to several clients', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(mockInlineResult),
+    }))
+    const limiter = createConcurrencyLimiter({ maxConcurrent: 1 })
+    const a = new DatabricksSqlClient(mockAuth, { concurrency: limiter })
+    const b = new DatabricksSqlClient(mockAuth, { concurrency: limiter })
+
+    await Promise.all([a.execute('SELECT 1'), b.execute('SELECT 2')])
+
+    expect(limiter.getStats()[0]?.startedCount).toBe(2)
+    expect(a.getQueueStats()).toEqual(b.getQueueStats())
+  })
+})
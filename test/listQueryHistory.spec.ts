@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { listQueryHistory } from '../src/api'
+import type { QueryInfo } from '../src/types.js'
+import { AbortError } from '../src/errors.js'
+import { mockAuth, mockQueryInfo } from './mocks.js'
+import { jsonResponse } from './testUtil.js'
+
+function query(id: string): QueryInfo {
+  return { ...mockQueryInfo, query_id: id }
+}
+
+async function collect(iterable: AsyncIterable<QueryInfo>): Promise<string[]> {
+  const ids: string[] = []
+  for await (const info of iterable)
+    ids.push(info.query_id)
+  return ids
+}
+
+describe('listQueryHistory', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should follow next_page_token across pages', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse({ res: [query('q1'), query('q2')], next_page_token: 'token-2', has_next_page: true }))
+      .mockResolvedValueOnce(jsonResponse({ res: [query('q3')], next_page_token: 'token-3', has_next_page: false }))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const ids = await collect(listQueryHistory(mockAuth, { max_results: 2 }))
+
+    expect(ids).toEqual(['q1', 'q2', 'q3'])
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(mockFetch.mock.calls[1]![0]).toBe(
+      `https://${mockAuth.host}/api/2.0/sql/history/queries?page_token=token-2&max_results=2`
+    )
+  })
+
+  it('should encode filters and include_metrics as query parameters', async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce(jsonResponse({ res: [query('q1')] }))
+    vi.stubGlobal('fetch', mockFetch)
+
+    await collect(listQueryHistory(mockAuth, {
+      include_metrics: true,
+      filter_by: {
+        query_start_time_range: { start_time_ms: 1700000000000, end_time_ms: 1700003600000 },
+        statuses: ['FINISHED', 'FAILED'],
+        user_ids: [42],
+        warehouse_ids: ['abc123def456'],
+      },
+    }))
+
+    const url = new URL(mockFetch.mock.calls[0]![0] as string)
+    expect(url.pathname).toBe('/api/2.0/sql/history/queries')
+    expect(url.searchParams.get('include_metrics')).toBe('true')
+    expect(url.searchParams.get('filter_by.query_start_time_range.start_time_ms')).toBe('1700000000000')
+    expect(url.searchParams.get('filter_by.query_start_time_range.end_time_ms')).toBe('1700003600000')
+    expect(url.searchParams.getAll('filter_by.statuses')).toEqual(['FINISHED', 'FAILED'])
+    expect(url.searchParams.getAll('filter_by.user_ids')).toEqual(['42'])
+    expect(url.searchParams.getAll('filter_by.warehouse_ids')).toEqual(['abc123def456'])
+    expect(mockFetch.mock.calls[0]![1]).toMatchObject({ method: 'GET' })
+  })
+
+  it('should fetch pages lazily and stop when the consumer breaks', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValue(jsonResponse({ res: [query('q1'), query('q2')], next_page_token: 'next', has_next_page: true }))
+    vi.stubGlobal('fetch', mockFetch)
+
+    for await (const info of listQueryHistory(mockAuth)) {
+      expect(info.query_id).toBe('q1')
+      break
+    }
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should handle empty pages', async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce(jsonResponse({}))
+    vi.stubGlobal('fetch', mockFetch)
+
+    await expect(collect(listQueryHistory(mockAuth))).resolves.toEqual([])
+  })
+
+  it('should stop when aborted between pages', async () => {
+    const controller = new AbortController()
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValue(jsonResponse({ res: [query('q1')], next_page_token: 'next', has_next_page: true }))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const iterator = listQueryHistory(mockAuth, { signal: controller.signal })
+    await expect(iterator.next()).resolves.toMatchObject({ value: { query_id: 'q1' } })
+    controller.abort()
+
+    await expect(iterator.next()).rejects.toBeInstanceOf(AbortError)
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeStatementParameter, toStatementParameter } from '../src/parameters.js'
+import { sql } from '../src/sql.js'
+import { InvalidParameterError } from '../src/errors.js'
+
+describe('toStatementParameter', () => {
+  it('should infer types from JS values', () => {
+    expect(toStatementParameter('a', 'x')).toEqual({ name: 'a', type: 'STRING', value: 'x' })
+    expect(toStatementParameter('a', false)).toEqual({ name: 'a', type: 'BOOLEAN', value: 'false' })
+    expect(toStatementParameter('a', 42)).toEqual({ name: 'a', type: 'BIGINT', value: '42' })
+    expect(toStatementParameter('a', 0.25)).toEqual({ name: 'a', type: 'DOUBLE', value: '0.25' })
+    expect(toStatementParameter('a', -(2n ** 63n))).toEqual({
+      name: 'a',
+      type: 'BIGINT',
+      value: '-9223372036854775808',
+    })
+    expect(toStatementParameter('a', new Date('2025-03-01T12:34:56.789Z'))).toEqual({
+      name: 'a',
+      type: 'TIMESTAMP',
+      value: '2025-03-01T12:34:56.789Z',
+    })
+    expect(toStatementParameter('a', Buffer.from('héllo'))).toEqual({ name: 'a', type: 'BINARY', value: 'héllo' })
+    expect(toStatementParameter('a', null)).toEqual({ name: 'a' })
+  })
+
+  it('should reject bigint values outside the BIGINT range', () => {
+    expect(() => toStatementParameter('a', 2n ** 63n)).toThrow(InvalidParameterError)
+  })
+
+  it('should reject binary data that is not lossless UTF-8', () => {
+    expect(() => toStatementParameter('a', Buffer.from([0xff, 0xfe]))).toThrow('not valid UTF-8')
+  })
+
+  it('should reject invalid dates and unsupported values', () => {
+    expect(() => toStatementParameter('a', new Date('invalid'))).toThrow(InvalidParameterError)
+    expect(() => toStatementParameter('a', Symbol('x'))).toThrow('unsupported type symbol')
+    expect(() => toStatementParameter('a', new Map())).toThrow('unsupported type Map')
+  })
+
+  it('should serialize values for explicit types', () => {
+    const date = new Date('2025-03-01T12:34:56.789Z')
+    expect(toStatementParameter('a', date, 'DATE').value).toBe('2025-03-01')
+    expect(toStatementParameter('a', date, 'TIMESTAMP_NTZ').value).toBe('2025-03-01T12:34:56.789')
+    expect(toStatementParameter('a', '123.45', 'DECIMAL(5,2)').value).toBe('123.45')
+    expect(toStatementParameter('a', 7n, 'SMALLINT').value).toBe('7')
+    expect(toStatementParameter('a', 1.5, 'FLOAT').value).toBe('1.5')
+    expect(toStatementParameter('a', null, 'DATE')).toEqual({ name: 'a', type: 'DATE' })
+  })
+})
+
+describe('normalizeStatementParameter', () => {
+  it('should keep existing untyped and basic parameters working', () => {
+    expect(normalizeStatementParameter({ name: 'a', value: 5 })).toEqual({ name: 'a', value: '5' })
+    expect(normalizeStatementParameter({ name: 'a', type: 'LONG', value: 5 })).toEqual({
+      name: 'a',
+      type: 'LONG',
+      value: '5',
+    })
+    expect(normalizeStatementParameter({ name: 'a', type: 'BOOLEAN', value: 'TRUE' }).value).toBe('true')
+    expect(normalizeStatementParameter({ name: 'a', type: 'INT' })).toEqual({ name: 'a', type: 'INT' })
+  })
+
+  it.each([
+    ['TINYINT', 128],
+    ['SMALLINT', -32769],
+    ['INT', 2 ** 31],
+    ['BIGINT', '9223372036854775808'],
+    ['INT', 1.5],
+    ['DOUBLE', 'abc'],
+    ['DECIMAL(5,2)', '1234.5'],
+    ['DECIMAL(5,2)', '1.234'],
+    ['DECIMAL(5,2)', 1e21],
+    ['DECIMAL', '0.5'],
+    ['DATE', '2025-02-30'],
+    ['DATE', '2025-01-01T00:00:00'],
+    ['TIMESTAMP', 'yesterday'],
+    ['TIMESTAMP_NTZ', '2025-01-01T00:00:00Z'],
+    ['BOOLEAN', 'yes'],
+  ] as const)('should reject %s value %s', (type, value) => {
+    expect(() => normalizeStatementParameter({ name: 'a', type, value })).toThrow(InvalidParameterError)
+  })
+
+  it('should reject invalid decimal types', () => {
+    expect(() => normalizeStatementParameter({ name: 'a', type: 'DECIMAL(2,3)', value: '0.1' }))
+      .toThrow('invalid decimal type')
+  })
+
+  it('should accept well-formed temporal strings', () => {
+    expect(normalizeStatementParameter({ name: 'a', type: 'TIMESTAMP', value: '2025-01-01 08:00:00+09:00' }).value)
+      .toBe('2025-01-01 08:00:00+09:00')
+    expect(normalizeStatementParameter({ name: 'a', type: 'TIMESTAMP_NTZ', value: '2025-01-01T08:00:00.123456' }).value)
+      .toBe('2025-01-01T08:00:00.123456')
+  })
+})
+
+describe('sql.param', () => {
+  it('should bind a value with an explicit type', () => {
+    const statement = sql`SELECT * FROM t WHERE amount = ${sql.param('12.50', 'DECIMAL(10,2)')} AND day = ${sql.param(new Date('2025-01-02T00:00:00Z'), 'DATE')}`
+
+    expect(statement.text).toBe('SELECT * FROM t WHERE amount = :p0 AND day = :p1')
+    expect(statement.parameters).toEqual([
+      { name: 'p0', type: 'DECIMAL(10,2)', value: '12.50' },
+      { name: 'p1', type: 'DATE', value: '2025-01-02' },
+    ])
+  })
+})
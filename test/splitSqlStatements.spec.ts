@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { splitSqlStatements } from '../src/splitSqlStatements.js'
+
+describe('splitSqlStatements', () => {
+  it('should split on top-level semicolons and trim statements', () => {
+    expect(splitSqlStatements('SELECT 1;\n  SELECT 2 ;\n\nSELECT 3')).toEqual([
+      'SELECT 1',
+      'SELECT 2',
+      'SELECT 3',
+    ])
+  })
+
+  it('should ignore semicolons inside string literals and identifiers', () => {
+    const script = `INSERT INTO t VALUES ('a;b', "c;d", 'it''s;', 'x\\';y');SELECT \`weird;col\` FROM t`
+
+    expect(splitSqlStatements(script)).toEqual([
+      `INSERT INTO t VALUES ('a;b', "c;d", 'it''s;', 'x\\';y')`,
+      'SELECT `weird;col` FROM t',
+    ])
+  })
+
+  it('should ignore semicolons inside comments', () => {
+    const script = [
+      '-- header; not a statement',
+      'SELECT 1; -- trailing; comment',
+      '/* block; /* nested; */ still comment; */',
+      'SELECT 2;',
+    ].join('\n')
+
+    expect(splitSqlStatements(script)).toEqual([
+      '-- header; not a statement\nSELECT 1',
+      '-- trailing; comment\n/* block; /* nested; */ still comment; */\nSELECT 2',
+    ])
+  })
+
+  it('should drop empty and comment-only statements', () => {
+    expect(splitSqlStatements(';;\nSELECT 1;;\n-- done;\n')).toEqual(['SELECT 1'])
+  })
+
+  it('should keep dollar-quoted bodies intact', () => {
+    const body = `CREATE FUNCTION f() RETURNS INT LANGUAGE PYTHON AS $$
+x = 1; y = 2
+return x + y
+$$`
+    const tagged = 'CREATE FUNCTION g() RETURNS STRING LANGUAGE PYTHON AS $py$ return "$$;" $py$'
+
+    expect(splitSqlStatements(`${body};\n${tagged};\nSELECT f()`)).toEqual([body, tagged, 'SELECT f()'])
+  })
+
+  it('should treat a lone dollar sign as code', () => {
+    expect(splitSqlStatements("SELECT '$' || col$1; SELECT 2")).toEqual(["SELECT '$' || col$1", 'SELECT 2'])
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { executeStatement } from '../src/api'
+import { sql } from '../src/sql.js'
+import { InvalidParameterError } from '../src/errors.js'
+import { mockAuth, mockInlineResult } from './mocks.js'
+
+describe('sql', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should replace interpolated values with named parameter markers', () => {
+    const id = 42
+    const day = '2025-01-01'
+    const statement = sql`SELECT * FROM t WHERE id = ${id} AND day = ${day}`
+
+    expect(statement.text).toBe('SELECT * FROM t WHERE id = :p0 AND day = :p1')
+    expect(statement.parameters).toEqual([
+      { name: 'p0', type: 'BIGINT', value: '42' },
+      { name: 'p1', type: 'STRING', value: '2025-01-01' },
+    ])
+  })
+
+  it('should infer parameter types from JS values', () => {
+    const statement = sql`SELECT ${1.5}, ${true}, ${2n ** 63n - 1n}, ${null}`
+
+    expect(statement.parameters).toEqual([
+      { name: 'p0', type: 'DOUBLE', value: '1.5' },
+      { name: 'p1', type: 'BOOLEAN', value: 'true' },
+      { name: 'p2', type: 'BIGINT', value: '9223372036854775807' },
+      { name: 'p3' },
+    ])
+  })
+
+  it('should number parameters across composed fragments', () => {
+    const filter = sql`status = ${'open'} AND amount > ${100}`
+    const statement = sql`SELECT * FROM orders WHERE region = ${'EU'} AND ${filter} LIMIT ${10}`
+
+    expect(statement.text).toBe(
+      'SELECT * FROM orders WHERE region = :p0 AND status = :p1 AND amount > :p2 LIMIT :p3'
+    )
+    expect(statement.parameters.map((parameter) => parameter.value)).toEqual(['EU', 'open', '100', '10'])
+  })
+
+  it('should expand arrays for IN lists', () => {
+    const statement = sql`SELECT * FROM t WHERE id IN (${[1, 2, 3]})`
+
+    expect(statement.text).toBe('SELECT * FROM t WHERE id IN (:p0, :p1, :p2)')
+    expect(statement.parameters).toHaveLength(3)
+  })
+
+  it('should reject empty arrays', () => {
+    expect(() => sql`SELECT * FROM t WHERE id IN (${[]})`).toThrow(InvalidParameterError)
+  })
+
+  it('should quote identifiers with backticks', () => {
+    const statement = sql`SELECT ${sql.identifier('weird`col')} FROM ${sql.identifier('main', 'sales', 'orders')}`
+
+    expect(statement.text).toBe('SELECT `weird``col` FROM `main`.`sales`.`orders`')
+    expect(statement.parameters).toEqual([])
+    expect(() => sql.identifier('')).toThrow(InvalidParameterError)
+  })
+
+  it('should join fragments with a separator', () => {
+    const columns = sql.join(['a', 'b'].map((column) => sql.identifier(column)))
+    const conditions = sql.join([sql`x = ${1}`, sql`y = ${2}`], ' AND ')
+    const statement = sql`SELECT ${columns} FROM t WHERE ${conditions}`
+
+    expect(statement.text).toBe('SELECT `a`, `b` FROM t WHERE x = :p0 AND y = :p1')
+  })
+
+  it('should reject values that cannot be bound', () => {
+    expect(() => sql`SELECT ${{ a: 1 }}`).toThrow(InvalidParameterError)
+    expect(() => sql`SELECT ${Number.NaN}`).toThrow('must be a finite number')
+  })
+
+  it('should be accepted by executeStatement', async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve(mockInlineResult),
+    })
+    vi.stubGlobal('fetch', mockFetch)
+
+    await executeStatement(sql`SELECT * FROM t WHERE id = ${7}`, mockAuth, {
+      parameters: [{ name: 'extra', type: 'STRING', value: 'x' }],
+    })
+
+    const body = JSON.parse(mockFetch.mock.calls[0]![1].body as string)
+    expect(body.statement).toBe('SELECT * FROM t WHERE id = :p0')
+    expect(body.parameters).toEqual([
+      { name: 'p0', type: 'BIGINT', value: '7' },
+      { name: 'extra', type: 'STRING', value: 'x' },
+    ])
+  })
+})
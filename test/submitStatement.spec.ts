@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { submitStatement } from '../src/api'
+import { AbortError, StatementCancelledError } from '../src/errors.js'
+import {
+  mockAuth,
+  mockPendingResult,
+  mockRunningResult,
+  mockSucceededAfterPolling,
+} from './mocks.js'
+import { jsonResponse } from './testUtil.js'
+
+describe('submitStatement', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should return a handle without waiting for completion', async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce(jsonResponse(mockPendingResult))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const handle = await submitStatement('SELECT 42', mockAuth)
+
+    expect(handle.statementId).toBe(mockPendingResult.statement_id)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining('/api/2.0/sql/statements'),
+      expect.objectContaining({
+        method: 'POST',
+        body: expect.stringContaining('"wait_timeout":"0s"'),
+      })
+    )
+  })
+
+  it('should report the current status', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(mockPendingResult))
+      .mockResolvedValueOnce(jsonResponse(mockRunningResult))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const handle = await submitStatement('SELECT 42', mockAuth)
+    const status = await handle.status()
+
+    expect(status.status.state).toBe('RUNNING')
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      expect.stringContaining(`/api/2.0/sql/statements/${mockPendingResult.statement_id}`),
+      expect.objectContaining({ method: 'GET' })
+    )
+  })
+
+  it('should wait until the statement succeeds and collect rows', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(mockPendingResult))
+      .mockResolvedValueOnce(jsonResponse(mockRunningResult))
+      .mockResolvedValueOnce(jsonResponse(mockSucceededAfterPolling))
+    vi.stubGlobal('fetch', mockFetch)
+    const onProgress = vi.fn()
+
+    const handle = await submitStatement('SELECT 42', mockAuth)
+    const rowsPromise = handle.result()
+    await vi.advanceTimersByTimeAsync(1500)
+
+    expect(await rowsPromise).toEqual([['42']])
+    expect(onProgress).not.toHaveBeenCalled()
+
+    // A settled handle resolves immediately without polling again.
+    await expect(handle.wait({ onProgress })).resolves.toMatchObject({ status: { state: 'SUCCEEDED' } })
+    expect(onProgress).toHaveBeenCalledTimes(1)
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('should stop waiting on abort without cancelling the statement', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(mockPendingResult))
+      .mockResolvedValue(jsonResponse(mockRunningResult))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const handle = await submitStatement('SELECT 42', mockAuth)
+    const controller = new AbortController()
+    const waitPromise = handle.wait({ signal: controller.signal })
+    const rejection = expect(waitPromise).rejects.toBeInstanceOf(AbortError)
+    await vi.advanceTimersByTimeAsync(500)
+    controller.abort()
+    await rejection
+
+    expect(mockFetch).not.toHaveBeenCalledWith(
+      expect.stringContaining('/cancel'),
+      expect.anything()
+    )
+  })
+
+  it('should cancel the statement and surface the cancellation to wait', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(mockPendingResult))
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce(jsonResponse({ ...mockPendingResult, status: { state: 'CANCELED' } }))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const handle = await submitStatement('SELECT 42', mockAuth)
+    await handle.cancel()
+
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      expect.stringContaining(`/api/2.0/sql/statements/${mockPendingResult.statement_id}/cancel`),
+      expect.objectContaining({ method: 'POST' })
+    )
+
+    const waitPromise = handle.wait()
+    const rejection = expect(waitPromise).rejects.toBeInstanceOf(StatementCancelledError)
+    await vi.advanceTimersByTimeAsync(500)
+    await rejection
+  })
+})
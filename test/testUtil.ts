@@ -3,10 +3,10 @@ import type { ExternalLinkInfo } from '../src/types.js'
 import { Writable } from 'node:stream'
 import { pipeline } from 'node:stream/promises'
 
-export function createMockReadableStream(data: string): ReadableStream<Uint8Array> {
+export function createMockReadableStream(data: string | Uint8Array): ReadableStream<Uint8Array> {
   return new ReadableStream({
     start(controller) {
-      controller.enqueue(new TextEncoder().encode(data))
+      controller.enqueue(typeof data === 'string' ? new TextEncoder().encode(data) : data)
       controller.close()
     },
   })
@@ -43,7 +43,7 @@ export function createGetChunkResponse(
 }
 
 export function createStreamResponse(
-  data: string
+  data: string | Uint8Array
 ): { ok: true; body: ReadableStream<Uint8Array> } {
   return {
     ok: true,
@@ -51,6 +51,10 @@ export function createStreamResponse(
   }
 }
 
+export function jsonResponse(body: unknown) {
+  return { ok: true, status: 200, json: () => Promise.resolve(body) }
+}
+
 export async function collectStream(stream: NodeJS.ReadableStream): Promise<Buffer> {
   const chunks: Buffer[] = []
   const writable = new Writable({
@@ -62,3 +66,20 @@ export async function collectStream(stream: NodeJS.ReadableStream): Promise<Buff
   await pipeline(stream, writable)
   return Buffer.concat(chunks)
 }
+
+// An endless JSON_ARRAY body that records how much was pulled and whether it was cancelled.
+export function createEndlessJsonBody() {
+  const encoder = new TextEncoder()
+  const state = { pulls: 0, cancelled: false }
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const prefix = state.pulls === 0 ? '[' : ','
+      controller.enqueue(encoder.encode(`${prefix}["${state.pulls}","${state.pulls * 2}"]`))
+      state.pulls++
+    },
+    cancel() {
+      state.cancelled = true
+    },
+  })
+  return { body, state }
+}
@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { executeStatement, fetchStream, mergeExternalLinks } from '../src/api'
+import type { MergeExternalLinksResult, SpanAttributes, StatementResult, Tracer } from '../src/types.js'
+import {
+  mockAuth,
+  mockExternalLinksResult,
+  mockExternalLinkData,
+  mockFailedResult,
+  mockPendingResult,
+  mockSucceededAfterPolling,
+} from './mocks.js'
+import { collectStream, createExternalLinkInfo, createStreamResponse } from './testUtil.js'
+
+type RecordedSpan = {
+  name: string
+  /** Name of the span that was active when this one started */
+  parent?: string
+  attributes: SpanAttributes
+  status?: { code: number; message?: string }
+  exceptions: Error[]
+  ended: boolean
+}
+
+function createRecordingTracer(): { tracer: Tracer; spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = []
+  // Follows the active span across awaits, like an OpenTelemetry context manager.
+  const context = new AsyncLocalStorage<RecordedSpan>()
+  const tracer: Tracer = {
+    startActiveSpan(name, options, fn) {
+      const recorded: RecordedSpan = {
+        name,
+        ...context.getStore() ? { parent: context.getStore()!.name } : {},
+        attributes: { ...options.attributes },
+        exceptions: [],
+        ended: false,
+      }
+      spans.push(recorded)
+      return context.run(recorded, () => fn({
+        setAttribute: (key, value) => {
+          recorded.attributes[key] = value
+        },
+        setStatus: (status) => {
+          recorded.status = status
+        },
+        recordException: (exception) => {
+          recorded.exceptions.push(exception)
+        },
+        end: () => {
+          recorded.ended = true
+        },
+      })) as ReturnType<typeof fn>
+    },
+  }
+  return { tracer, spans }
+}
+
+describe('tracing', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should emit spans for statement submission and each poll iteration', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve(mockPendingResult) })
+      .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve(mockSucceededAfterPolling) })
+    vi.stubGlobal('fetch', mockFetch)
+    const { tracer, spans } = createRecordingTracer()
+
+    const resultPromise = executeStatement('SELECT 42', mockAuth, { tracer })
+    await vi.advanceTimersByTimeAsync(5000)
+    await resultPromise
+
+    expect(spans.map((span) => span.name)).toEqual([
+      'databricks.executeStatement',
+      'databricks.postStatement',
+      'databricks.executeStatement.poll',
+      'databricks.getStatement',
+    ])
+    expect(spans.every((span) => span.ended)).toBe(true)
+    expect(spans[0]!.attributes).toMatchObject({
+      'db.system': 'databricks',
+      'databricks.warehouse_id': 'abc123def456',
+      'databricks.statement_id': mockPendingResult.statement_id,
+      'databricks.statement.state': 'SUCCEEDED',
+    })
+    expect(spans[1]!.attributes).toMatchObject({
+      'http.request.method': 'POST',
+      'http.response.status_code': 200,
+      'databricks.http.attempts': 1,
+    })
+    expect(spans[2]!.attributes).toMatchObject({
+      'databricks.poll.iteration': 1,
+      'databricks.statement.state': 'SUCCEEDED',
+    })
+    expect(spans[3]!.attributes).toMatchObject({
+      'databricks.statement_id': mockPendingResult.statement_id,
+    })
+  })
+
+  it('should record failures on the statement span', async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve(mockFailedResult),
+    })
+    vi.stubGlobal('fetch', mockFetch)
+    const { tracer, spans } = createRecordingTracer()
+
+    await expect(executeStatement('SELECT invalid', mockAuth, { tracer })).rejects.toThrow(
+      'Syntax error in SQL statement'
+    )
+
+    expect(spans[0]).toMatchObject({
+      name: 'databricks.executeStatement',
+      status: { code: 2, message: 'Syntax error in SQL statement' },
+      ended: true,
+    })
+    expect(spans[0]!.attributes['databricks.statement.state']).toBe('FAILED')
+    expect(spans[0]!.exceptions).toHaveLength(1)
+  })
+
+  it('should emit a span for each external link download', async () => {
+    vi.useRealTimers()
+    const mockFetch = vi.fn().mockResolvedValueOnce(
+      createStreamResponse(JSON.stringify(mockExternalLinkData))
+    )
+    vi.stubGlobal('fetch', mockFetch)
+    const { tracer, spans } = createRecordingTracer()
+
+    await collectStream(fetchStream(mockExternalLinksResult, mockAuth, { tracer }))
+
+    expect(spans).toEqual([
+      expect.objectContaining({
+        name: 'databricks.fetchStream.download',
+        attributes: {
+          'databricks.statement_id': mockExternalLinksResult.statement_id,
+          'databricks.chunk_index': 0,
+          'databricks.byte_count': 1236,
+        },
+        ended: true,
+      }),
+    ])
+  })
+
+  it('should emit a child span for each link of a multi-link result', async () => {
+    vi.useRealTimers()
+    const links = [0, 1].map((chunk_index) => createExternalLinkInfo({
+      chunk_index,
+      byte_count: 100 + chunk_index,
+      external_link: `https://mock/chunk${chunk_index}.json`,
+    }))
+    const mockFetch = vi.fn()
+      .mockResolvedValueOnce(createStreamResponse('[["a"]]'))
+      .mockResolvedValueOnce(createStreamResponse('[["b"]]'))
+    vi.stubGlobal('fetch', mockFetch)
+    const { tracer, spans } = createRecordingTracer()
+    const multiLinkResult: StatementResult = {
+      ...mockExternalLinksResult,
+      manifest: { ...mockExternalLinksResult.manifest!, total_chunk_count: 2 },
+      result: { external_links: links },
+    }
+
+    const data = await collectStream(fetchStream(multiLinkResult, mockAuth, { tracer }))
+
+    expect(JSON.parse(data.toString())).toEqual([['a'], ['b']])
+    expect(spans).toEqual([
+      expect.objectContaining({
+        name: 'databricks.fetchStream.merge',
+        attributes: {
+          'databricks.statement_id': multiLinkResult.statement_id,
+          'databricks.link_count': 2,
+          'databricks.byte_count': 201,
+        },
+        ended: true,
+      }),
+      ...links.map((link) => expect.objectContaining({
+        name: 'databricks.fetchStream.download',
+        parent: 'databricks.fetchStream.merge',
+        attributes: {
+          'databricks.statement_id': multiLinkResult.statement_id,
+          'databricks.chunk_index': link.chunk_index,
+          'databricks.byte_count': link.byte_count,
+        },
+        ended: true,
+      })),
+    ])
+  })
+
+  it('should not change the downloaded bytes when tracing', async () => {
+    vi.useRealTimers()
+    const multiLinkResult: StatementResult = {
+      ...mockExternalLinksResult,
+      manifest: { ...mockExternalLinksResult.manifest!, total_chunk_count: 2 },
+      result: {
+        external_links: [0, 1].map((chunk_index) => createExternalLinkInfo({
+          chunk_index,
+          external_link: `https://mock/chunk${chunk_index}.json`,
+        })),
+      },
+    }
+    const download = async (tracer?: Tracer) => {
+      const mockFetch = vi.fn()
+        .mockResolvedValueOnce(createStreamResponse('[["a"]]\n'))
+        .mockResolvedValueOnce(createStreamResponse('[["b"]]'))
+      vi.stubGlobal('fetch', mockFetch)
+      const data = await collectStream(fetchStream(multiLinkResult, mockAuth, tracer ? { tracer } : {}))
+      return { data: data.toString(), urls: mockFetch.mock.calls.map(([url]) => url) }
+    }
+
+    expect(await download(createRecordingTracer().tracer)).toEqual(await download())
+  })
+
+  it('should emit a span for the merged upload', async () => {
+    vi.useRealTimers()
+    const mockFetch = vi.fn().mockResolvedValueOnce(
+      createStreamResponse(JSON.stringify(mockExternalLinkData))
+    )
+    vi.stubGlobal('fetch', mockFetch)
+    const { tracer, spans } = createRecordingTracer()
+    const uploadResult: MergeExternalLinksResult = {
+      externalLink: 'https://my-storage.com/merged.json',
+      byte_count: 500,
+      expiration: '2025-12-31T00:00:00Z',
+    }
+
+    await mergeExternalLinks(mockExternalLinksResult, mockAuth, {
+      mergeStreamToExternalLink: vi.fn().mockResolvedValue(uploadResult),
+      forceMerge: true,
+      tracer,
+    })
+
+    expect(spans.find((span) => span.name === 'databricks.mergeExternalLinks.upload')).toMatchObject({
+      attributes: {
+        'databricks.statement_id': mockExternalLinksResult.statement_id,
+        'databricks.chunk_count': 1,
+        'databricks.byte_count': 500,
+      },
+      ended: true,
+    })
+  })
+})
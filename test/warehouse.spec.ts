@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ensureWarehouseRunning, executeStatement } from '../src/api'
+import { getWarehouse, listWarehouses, startWarehouse, stopWarehouse } from '../src/warehouse-api.js'
+import type { WarehouseInfo } from '../src/types.js'
+import { AbortError, DatabricksSqlError } from '../src/errors.js'
+import { mockAuth, mockInlineResult } from './mocks.js'
+import { jsonResponse } from './testUtil.js'
+
+const warehouseId = 'abc123def456'
+
+function warehouse(state: WarehouseInfo['state']): WarehouseInfo {
+  return { id: warehouseId, name: 'Starter Warehouse', state }
+}
+
+describe('warehouse API', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should get, list, start and stop warehouses', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(warehouse('RUNNING')))
+      .mockResolvedValueOnce(jsonResponse({ warehouses: [warehouse('RUNNING')] }))
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce(jsonResponse({}))
+    vi.stubGlobal('fetch', mockFetch)
+
+    await expect(getWarehouse(mockAuth, warehouseId)).resolves.toEqual(warehouse('RUNNING'))
+    await expect(listWarehouses(mockAuth)).resolves.toEqual([warehouse('RUNNING')])
+    await startWarehouse(mockAuth, warehouseId)
+    await stopWarehouse(mockAuth, warehouseId)
+    await expect(listWarehouses(mockAuth)).resolves.toEqual([])
+
+    const calls = mockFetch.mock.calls.map(([url, init]) => [(init as RequestInit).method, url])
+    expect(calls).toEqual([
+      ['GET', `https://${mockAuth.host}/api/2.0/sql/warehouses/${warehouseId}`],
+      ['GET', `https://${mockAuth.host}/api/2.0/sql/warehouses`],
+      ['POST', `https://${mockAuth.host}/api/2.0/sql/warehouses/${warehouseId}/start`],
+      ['POST', `https://${mockAuth.host}/api/2.0/sql/warehouses/${warehouseId}/stop`],
+      ['GET', `https://${mockAuth.host}/api/2.0/sql/warehouses`],
+    ])
+  })
+})
+
+describe('ensureWarehouseRunning', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should return immediately when the warehouse is running', async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce(jsonResponse(warehouse('RUNNING')))
+    vi.stubGlobal('fetch', mockFetch)
+
+    await expect(ensureWarehouseRunning(mockAuth, warehouseId)).resolves.toMatchObject({ state: 'RUNNING' })
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should start a stopped warehouse and report progress until it runs', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(warehouse('STOPPED')))
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce(jsonResponse(warehouse('STARTING')))
+      .mockResolvedValueOnce(jsonResponse(warehouse('RUNNING')))
+    vi.stubGlobal('fetch', mockFetch)
+    const onWarehouseProgress = vi.fn()
+    const logger = { info: vi.fn() }
+
+    const promise = ensureWarehouseRunning(mockAuth, warehouseId, { onWarehouseProgress, logger })
+    await vi.advanceTimersByTimeAsync(10_000)
+    await promise
+
+    expect(mockFetch.mock.calls[1]![0]).toContain(`/api/2.0/sql/warehouses/${warehouseId}/start`)
+    expect(onWarehouseProgress.mock.calls.map(([info]) => info.state)).toEqual(['STOPPED', 'STARTING', 'RUNNING'])
+    expect(logger.info).toHaveBeenCalledWith(`ensureWarehouseRunning Starting warehouse ${warehouseId}...`)
+  })
+
+  it('should wait for a stopping warehouse before starting it', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(warehouse('STOPPING')))
+      .mockResolvedValueOnce(jsonResponse(warehouse('STOPPED')))
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce(jsonResponse(warehouse('RUNNING')))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const promise = ensureWarehouseRunning(mockAuth, warehouseId)
+    await vi.advanceTimersByTimeAsync(10_000)
+    await promise
+
+    expect(mockFetch.mock.calls[2]![0]).toContain('/start')
+  })
+
+  it('should restart a warehouse that stops again and fail after repeated attempts', async () => {
+    const failed: WarehouseInfo = {
+      ...warehouse('STOPPED'),
+      health: { status: 'FAILED', message: 'Cluster launch failed: quota exceeded' },
+    }
+    const mockFetch = vi.fn().mockImplementation((url: string) =>
+      Promise.resolve(jsonResponse(url.endsWith('/start') ? {} : failed))
+    )
+    vi.stubGlobal('fetch', mockFetch)
+
+    const promise = ensureWarehouseRunning(mockAuth, warehouseId)
+    const rejection = promise.catch((err: unknown) => err)
+    await vi.advanceTimersByTimeAsync(15_000)
+    const error = await rejection
+
+    expect(error).toBeInstanceOf(DatabricksSqlError)
+    expect(error).toMatchObject({
+      code: 'WAREHOUSE_START_FAILED',
+      message: `Warehouse ${warehouseId} failed to start: Cluster launch failed: quota exceeded`,
+    })
+    expect(mockFetch.mock.calls.filter(([url]) => String(url).endsWith('/start'))).toHaveLength(3)
+  })
+
+  it('should fail for deleted warehouses', async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce(jsonResponse(warehouse('DELETED')))
+    vi.stubGlobal('fetch', mockFetch)
+
+    await expect(ensureWarehouseRunning(mockAuth, warehouseId)).rejects.toThrow(DatabricksSqlError)
+  })
+
+  it('should start the warehouse before executeStatement submits', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(warehouse('STOPPED')))
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce(jsonResponse(warehouse('RUNNING')))
+      .mockResolvedValueOnce(jsonResponse(mockInlineResult))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const promise = executeStatement('SELECT 1', mockAuth, { ensureWarehouseRunning: true })
+    await vi.advanceTimersByTimeAsync(5000)
+    const result = await promise
+
+    expect(result.status.state).toBe('SUCCEEDED')
+    expect(mockFetch.mock.calls[3]![0]).toContain('/api/2.0/sql/statements')
+  })
+
+  it('should throw AbortError when aborted while waiting for startup', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(warehouse('STARTING')))
+    vi.stubGlobal('fetch', mockFetch)
+    const controller = new AbortController()
+
+    const promise = executeStatement('SELECT 1', mockAuth, {
+      ensureWarehouseRunning: true,
+      signal: controller.signal,
+    })
+    const rejection = expect(promise).rejects.toBeInstanceOf(AbortError)
+    await vi.advanceTimersByTimeAsync(1000)
+    controller.abort()
+    await rejection
+
+    expect(mockFetch).not.toHaveBeenCalledWith(expect.stringContaining('/api/2.0/sql/statements'), expect.anything())
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { watchStatement } from '../src/api'
+import type { StatementStatusEvent } from '../src/types.js'
+import { AbortError } from '../src/errors.js'
+import {
+  mockAuth,
+  mockFailedResult,
+  mockPendingResult,
+  mockRunningResult,
+  mockSucceededAfterPolling,
+  mockQueryInfo,
+} from './mocks.js'
+import { jsonResponse } from './testUtil.js'
+
+async function collectEvents(iterable: AsyncIterable<StatementStatusEvent>): Promise<StatementStatusEvent[]> {
+  const events: StatementStatusEvent[] = []
+  for await (const event of iterable)
+    events.push(event)
+  return events
+}
+
+describe('watchStatement', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.useRealTimers()
+  })
+
+  it('should yield one event per state transition with timing deltas', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(mockPendingResult))
+      .mockResolvedValueOnce(jsonResponse(mockRunningResult))
+      .mockResolvedValueOnce(jsonResponse(mockRunningResult))
+      .mockResolvedValueOnce(jsonResponse(mockSucceededAfterPolling))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const eventsPromise = collectEvents(watchStatement(mockPendingResult.statement_id, mockAuth))
+    await vi.advanceTimersByTimeAsync(500 + 1000 + 2000)
+    const events = await eventsPromise
+
+    expect(events.map((event) => [event.previousState, event.state])).toEqual([
+      [undefined, 'PENDING'],
+      ['PENDING', 'RUNNING'],
+      ['RUNNING', 'SUCCEEDED'],
+    ])
+    expect(events.map((event) => event.elapsedMs)).toEqual([0, 500, 3500])
+    expect(events.map((event) => event.deltaMs)).toEqual([0, 500, 3000])
+    expect(events[2]!.result).toEqual(mockSucceededAfterPolling)
+    expect(mockFetch).toHaveBeenCalledTimes(4)
+  })
+
+  it('should yield terminal failures instead of throwing', async () => {
+    const mockFetch = vi.fn().mockResolvedValueOnce(jsonResponse(mockFailedResult))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const events = await collectEvents(watchStatement(mockFailedResult.statement_id, mockAuth))
+
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({ state: 'FAILED', result: mockFailedResult })
+  })
+
+  it('should include a metrics snapshot on every poll when enabled', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(mockRunningResult))
+      .mockResolvedValueOnce(jsonResponse(mockQueryInfo))
+      .mockResolvedValueOnce(jsonResponse(mockRunningResult))
+      .mockResolvedValueOnce(jsonResponse(mockQueryInfo))
+      .mockResolvedValueOnce(jsonResponse(mockSucceededAfterPolling))
+      .mockResolvedValueOnce(jsonResponse(mockQueryInfo))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const eventsPromise = collectEvents(
+      watchStatement(mockRunningResult.statement_id, mockAuth, { enableMetrics: true })
+    )
+    await vi.advanceTimersByTimeAsync(1500)
+    const events = await eventsPromise
+
+    expect(events.map((event) => event.state)).toEqual(['RUNNING', 'RUNNING', 'SUCCEEDED'])
+    expect(events.every((event) => event.metrics === mockQueryInfo.metrics)).toBe(true)
+  })
+
+  it('should stop polling without cancelling when the consumer breaks', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(mockRunningResult))
+    vi.stubGlobal('fetch', mockFetch)
+
+    for await (const event of watchStatement(mockRunningResult.statement_id, mockAuth)) {
+      expect(event.state).toBe('RUNNING')
+      break
+    }
+    await vi.advanceTimersByTimeAsync(10_000)
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(mockFetch).not.toHaveBeenCalledWith(expect.stringContaining('/cancel'), expect.anything())
+  })
+
+  it('should throw AbortError when the signal is aborted while waiting', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(mockRunningResult))
+    vi.stubGlobal('fetch', mockFetch)
+
+    const controller = new AbortController()
+    const eventsPromise = collectEvents(
+      watchStatement(mockRunningResult.statement_id, mockAuth, { signal: controller.signal })
+    )
+    const rejection = expect(eventsPromise).rejects.toBeInstanceOf(AbortError)
+    await vi.advanceTimersByTimeAsync(100)
+    controller.abort()
+    await rejection
+  })
+})